@@ -16,9 +16,18 @@ import {
   LineNumberRenderable,
   SliderRenderable,
   FrameBufferRenderable,
+  Renderable,
+  TextNodeRenderable,
   TextAttributes,
+  getLinkId,
+  isTextNodeRenderable,
+  resolveRenderLib,
+} from "@opentui/core";
+import type {
+  CliRenderer,
+  MouseEvent,
+  RootRenderable,
 } from "@opentui/core";
-import type { CliRenderer, Renderable, RootRenderable } from "@opentui/core";
 import {
   Result$Ok,
   Result$Error,
@@ -29,6 +38,8 @@ import { none } from "../../../lustre_platform/lustre/element.mjs";
 import { insertMetadataChild } from "../../../lustre_platform/lustre/vdom/reconciler.ffi.mjs";
 import { element_kind } from "../../../lustre_platform/lustre/vdom/vnode.mjs";
 import { new$ as platform_new } from "../../../lustre_platform/lustre/platform.mjs";
+import { OverlayLayer, PortalRenderable } from "./opentui/portal.ffi.ts";
+import { TableRenderable } from "./opentui/table.ffi.ts";
 
 // TYPES -----------------------------------------------------------------------
 
@@ -45,7 +56,7 @@ interface TuiNode extends Renderable {
 }
 
 
-interface RendererConfig {
+export interface RendererConfig {
   exit_on_ctrl_c: boolean;
   use_alternate_screen: boolean;
   use_mouse: boolean;
@@ -62,14 +73,47 @@ interface RendererConfig {
   remote: boolean;
   background_color: unknown;
   use_kitty_keyboard: boolean;
+  use_kitty_keyboard_events: boolean;
+  dev_mode: boolean;
 }
 
-interface KeyEventData {
+export interface KeyEventData {
   name?: string;
   key?: string;
   ctrl?: boolean;
   shift?: boolean;
   meta?: boolean;
+  option?: boolean;
+  super?: boolean;
+  sequence?: string;
+  repeated?: boolean;
+  eventType?: string;
+}
+
+// The fields of a Gleam `KeyEvent`, as exposed in a keyboard event's detail.
+export interface KeyEventDetail {
+  key: string;
+  ctrl: boolean;
+  shift: boolean;
+  meta: boolean;
+  repeated: boolean;
+  released: boolean;
+  option: boolean;
+  super: boolean;
+  sequence: string;
+  printable: boolean;
+}
+
+interface MouseEventData {
+  type?: string;
+  button?: number;
+  x?: number;
+  y?: number;
+  source?: Renderable;
+  target?: Renderable | null;
+  modifiers?: { shift?: boolean; alt?: boolean; ctrl?: boolean };
+  scroll?: { direction: string; delta: number };
+  isDragging?: boolean;
 }
 
 interface PasteEvent {
@@ -82,18 +126,55 @@ interface RenderableConstructor {
 
 type EventHandler = (event: TuiSyntheticEvent) => void;
 
-// MODULE-LEVEL RENDERER STORAGE -----------------------------------------------
+// RENDERER LOOKUP -------------------------------------------------------------
+
+// Each mounted app's root → the renderer that owns it. Several platforms can
+// live in one process, so effects look their renderer up from the root element
+// Lustre hands to `before_paint` instead of sharing a single global.
+const RENDERERS = new WeakMap<object, CliRenderer>();
+
+// Renderers with an app mounted on them that haven't been destroyed.
+const MOUNTED_RENDERERS = new Set<CliRenderer>();
+
+// The renderer whose app is handling a message right now. Effects made with
+// `effect.from` never see the root, so the platform sets this while an app
+// starts and around every handler and effect callback that dispatches to it.
+let currentRenderer: CliRenderer | null = null;
+
+// Run `callback` as the app on `renderer`, restoring the previous app after.
+export function within<T>(renderer: CliRenderer, callback: () => T): T {
+  const previous = currentRenderer;
+  currentRenderer = renderer;
+  try {
+    return callback();
+  } finally {
+    currentRenderer = previous;
+  }
+}
 
-let _renderer: CliRenderer | null = null;
+// The renderer for an effect that doesn't need the root. A message dispatched
+// from somewhere the platform doesn't know about, such as a timer, can only be
+// traced back to its app while just one app is mounted.
+export function current_renderer(): CliRenderer {
+  if (currentRenderer) return currentRenderer;
+  if (MOUNTED_RENDERERS.size === 1) return [...MOUNTED_RENDERERS][0]!;
+  if (MOUNTED_RENDERERS.size === 0) {
+    throw new Error("Renderer not initialized. Call opentui.platform() first.");
+  }
+  throw new Error(
+    "Several apps are running and this effect wasn't returned from one of their event or effect handlers, so it can't tell which renderer to use.",
+  );
+}
 
 // Internal function for use within lustre_opentui (e.g., effects).
 // External users should use raw_node_with_factory instead, which receives
 // the renderer via the factory pattern.
-export function get_renderer(): CliRenderer {
-  if (!_renderer) {
+export function get_renderer(root: unknown): CliRenderer {
+  const renderer = root != null ? RENDERERS.get(root as object) : undefined;
+  if (!renderer) {
     throw new Error("Renderer not initialized. Call opentui.platform() first.");
   }
-  return _renderer;
+  return renderer;
 }
 
 // HELPERS ---------------------------------------------------------------------
@@ -117,6 +198,8 @@ const RENDERABLE_MAP: Record<string, RenderableConstructor> = {
   linenumber: LineNumberRenderable as unknown as RenderableConstructor,
   slider: SliderRenderable as unknown as RenderableConstructor,
   framebuffer: FrameBufferRenderable as unknown as RenderableConstructor,
+  table: TableRenderable as unknown as RenderableConstructor,
+  portal: PortalRenderable as unknown as RenderableConstructor,
 };
 
 // Properties that must be integers for OpenTUI's Yoga layout engine.
@@ -130,6 +213,7 @@ const NUMERIC_PROPS = new Set([
   "maxLength", "scrollMargin", "scrollSpeed",
   "selectedIndex", "itemSpacing", "fastScrollStep",
   "tabWidth", "lineNumberOffset", "maxStatSamples",
+  "stackOrder",
 ]);
 
 // Properties that are floats.
@@ -139,9 +223,16 @@ const FLOAT_PROPS = new Set([
 
 // RENDERER --------------------------------------------------------------------
 
-function create_renderer(config: RendererConfig): Promise<CliRenderer> {
+// Renderers created by the headless test harness. These are driven frame by
+// frame from tests, so mount must not start their render loop.
+const HEADLESS_RENDERERS = new WeakSet<CliRenderer>();
+
+export function renderer_options(config: RendererConfig): Record<string, unknown> {
   const opts: Record<string, unknown> = {
-    exitOnCtrlC: config.exit_on_ctrl_c,
+    // Ctrl+C, SIGINT, SIGTERM and SIGHUP are handled in EXIT below, so apps
+    // can hear about them before the renderer is gone.
+    exitOnCtrlC: false,
+    exitSignals: OPENTUI_EXIT_SIGNALS,
     useAlternateScreen: config.use_alternate_screen,
     useMouse: config.use_mouse,
     targetFps: config.target_fps,
@@ -158,49 +249,272 @@ function create_renderer(config: RendererConfig): Promise<CliRenderer> {
   };
   const bg = unwrapResult<string>(config.background_color);
   if (bg) opts.backgroundColor = bg;
-  if (config.use_kitty_keyboard) {
-    opts.useKittyKeyboard = { disambiguate: true, alternateKeys: true };
+  if (config.use_kitty_keyboard || config.use_kitty_keyboard_events) {
+    opts.useKittyKeyboard = {
+      disambiguate: true,
+      alternateKeys: true,
+      events: config.use_kitty_keyboard_events,
+    };
   }
-  return createCliRenderer(opts) as Promise<CliRenderer>;
+  return opts;
+}
+
+function create_renderer(config: RendererConfig): Promise<CliRenderer> {
+  return createCliRenderer(renderer_options(config)) as Promise<CliRenderer>;
+}
+
+export function mark_headless(renderer: CliRenderer): void {
+  HEADLESS_RENDERERS.add(renderer);
+}
+
+export function is_headless(renderer: CliRenderer): boolean {
+  return HEADLESS_RENDERERS.has(renderer);
 }
 
 // PLATFORM --------------------------------------------------------------------
 
 export function platform(config: RendererConfig, callback: (platform: unknown) => void): void {
   create_renderer(config).then((renderer) => {
-    _renderer = renderer;  // Store for effects
-
-    const builtPlatform = platform_new(
-      renderer,
-      mount,
-      make_create_element(renderer),
-      create_text_node,
-      create_fragment,
-      create_comment,
-      insert_before,
-      move_before,
-      remove_child,
-      next_sibling,
-      get_attribute,
-      set_attribute,
-      remove_attribute,
-      set_property,
-      set_text,
-      make_set_raw_content(renderer),
-      add_event_listener,
-      remove_event_listener,
-      schedule_render,
-      make_after_render(renderer),
-    );
-
-    callback(builtPlatform);
+    if (config.dev_mode) enable_diagnostics(renderer);
+    handle_exit(renderer, config);
+    callback(build_platform(renderer));
   });
 }
 
+// Build a Lustre platform on top of an already created renderer. Shared by
+// `platform` and the headless test harness.
+export function build_platform(renderer: CliRenderer): unknown {
+  return platform_new(
+    renderer,
+    mount,
+    make_create_element(renderer),
+    create_text_node,
+    create_fragment,
+    create_comment,
+    insert_before,
+    move_before,
+    remove_child,
+    next_sibling,
+    get_attribute,
+    set_attribute,
+    remove_attribute,
+    set_property,
+    set_text,
+    make_set_raw_content(renderer),
+    add_event_listener,
+    remove_event_listener,
+    schedule_render,
+    make_after_render(renderer),
+  );
+}
+
+// EXIT ------------------------------------------------------------------------
+
+// Why an app is being asked to exit: Ctrl+C, or the signal the process got.
+export type ExitReason = "ctrl_c" | HandledSignal;
+
+export type HandledSignal = "SIGINT" | "SIGTERM" | "SIGHUP";
+
+// The code a shell reports for a process ended by each reason.
+const EXIT_CODES: Record<ExitReason, number> = {
+  ctrl_c: 130,
+  SIGINT: 130,
+  SIGTERM: 143,
+  SIGHUP: 129,
+};
+
+const HANDLED_SIGNALS: HandledSignal[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+// The rest of OpenTUI's default exit signals, which still just destroy the
+// renderer.
+const OPENTUI_EXIT_SIGNALS: NodeJS.Signals[] = [
+  "SIGQUIT", "SIGABRT", "SIGBREAK", "SIGPIPE", "SIGBUS", "SIGFPE",
+];
+
+// Renderers drawing to the real terminal, which must be restored whatever
+// ends the process. Headless renderers never end the process.
+const LIVE_RENDERERS = new Set<CliRenderer>();
+
+// Renderers whose config leaves uncaught errors to OpenTUI's console.
+const CONSOLE_ON_ERROR = new WeakSet<CliRenderer>();
+
+// Listeners for exit requests per renderer. While a renderer has any, an exit
+// request is theirs to carry out with `shut_down`, or to ignore.
+const EXIT_LISTENERS = new WeakMap<CliRenderer, Set<(reason: ExitReason) => void>>();
+
+// The code the process exits with once every live renderer is destroyed, or
+// null while nothing has asked it to quit.
+let quittingWith: number | null = null;
+
+// Set up exit handling for a renderer just created from `config`: Ctrl+C asks
+// it to exit when the config says so, and live renderers take part in the
+// process-wide handling of signals, crashes and exits.
+export function handle_exit(renderer: CliRenderer, config: RendererConfig): void {
+  if (config.exit_on_ctrl_c) {
+    renderer.keyInput.on("keypress", (keyEvent) => {
+      if (keyEvent.ctrl && keyEvent.name === "c") requestExit(renderer, "ctrl_c");
+    });
+  }
+
+  if (HEADLESS_RENDERERS.has(renderer)) return;
+  if (config.open_console_on_error) CONSOLE_ON_ERROR.add(renderer);
+  if (LIVE_RENDERERS.size === 0) installProcessHandlers();
+  LIVE_RENDERERS.add(renderer);
+
+  renderer.on("destroy", () => {
+    LIVE_RENDERERS.delete(renderer);
+    if (LIVE_RENDERERS.size > 0) return;
+    removeProcessHandlers();
+    // The renderer is still restoring the terminal when it says it's being
+    // destroyed, so the process exits once it's done.
+    const code = quittingWith;
+    if (code !== null) setTimeout(() => process.exit(code), 0);
+  });
+}
+
+// Listen for requests for `renderer`'s app to exit, returning the function
+// that stops listening.
+export function on_exit_request(
+  renderer: CliRenderer,
+  listener: (reason: ExitReason) => void,
+): () => void {
+  let listeners = EXIT_LISTENERS.get(renderer);
+  if (!listeners) {
+    listeners = new Set();
+    EXIT_LISTENERS.set(renderer, listeners);
+  }
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Hand an exit request to the app's listeners, or quit when it has none.
+function requestExit(renderer: CliRenderer, reason: ExitReason): void {
+  const listeners = EXIT_LISTENERS.get(renderer);
+  if (!listeners || listeners.size === 0) return shut_down(renderer, EXIT_CODES[reason]);
+  for (const listener of [...listeners]) listener(reason);
+}
+
+// Destroy every live renderer, restoring the terminal, then end the process
+// with `code`. A renderer in the middle of a frame is destroyed once the frame
+// is done, so the process waits for the last one. Headless renderers are only
+// destroyed.
+export function shut_down(renderer: CliRenderer, code: number): void {
+  if (!LIVE_RENDERERS.has(renderer)) return renderer.destroy();
+  quittingWith ??= code;
+  for (const live of [...LIVE_RENDERERS]) live.destroy();
+}
+
+// Destroy the renderer, resolving once it has restored the terminal. A renderer
+// in the middle of a frame only finishes being destroyed when the frame does.
+function destroyed(renderer: CliRenderer): Promise<void> {
+  return new Promise((resolve) => {
+    if (renderer.isDestroyed) return resolve();
+    renderer.once("destroy", () => setTimeout(resolve, 0));
+    renderer.destroy();
+  });
+}
+
+// Signals already handed to the apps, so that the same signal again forces
+// the exit.
+const SIGNALS_RECEIVED = new Set<HandledSignal>();
+
+// Apps can keep running after SIGINT or SIGTERM, but not when the same signal
+// comes again. After SIGHUP the terminal is gone, so apps are told about it
+// but never kept running.
+function onSignal(signal: NodeJS.Signals): void {
+  deliver_signal([...LIVE_RENDERERS], signal as HandledSignal, SIGNALS_RECEIVED);
+}
+
+// Hand `signal` to the apps of `renderers`, given the signals the process got
+// before it. Exported for the test harness, which has no process to signal.
+export function deliver_signal(
+  renderers: CliRenderer[],
+  signal: HandledSignal,
+  received: Set<HandledSignal>,
+): void {
+  const force = signal === "SIGHUP" || received.has(signal);
+  for (const renderer of renderers) {
+    if (signal === "SIGINT" && HANDED_OFF.has(renderer)) continue;
+    requestExit(renderer, signal);
+    if (force) shut_down(renderer, EXIT_CODES[signal]);
+  }
+  received.add(signal);
+}
+
+// Renderers whose terminal another program is using, see `hand_off`.
+const HANDED_OFF = new WeakSet<CliRenderer>();
+
+const ignoreSignal = (): void => {};
+
+// Let `run` hand `renderer`'s terminal to another program. Ctrl+C and Ctrl+\
+// in that program send SIGINT and SIGQUIT to the app as well, since both are
+// in the terminal's foreground process group, so like a shell the app ignores
+// them until the program is done.
+export async function hand_off<T>(renderer: CliRenderer, run: () => Promise<T>): Promise<T> {
+  HANDED_OFF.add(renderer);
+  process.on("SIGINT", ignoreSignal);
+  process.on("SIGQUIT", ignoreSignal);
+  try {
+    return await run();
+  } finally {
+    HANDED_OFF.delete(renderer);
+    process.off("SIGINT", ignoreSignal);
+    process.off("SIGQUIT", ignoreSignal);
+  }
+}
+
+// OpenTUI only logs uncaught errors, leaving the app running in a terminal
+// that may be in no state to show them. Renderers that show them in their
+// console keep running; the others are destroyed, and once none is left the
+// error is printed and the process exits, the way it would have without a
+// renderer.
+async function onCrash(error: unknown): Promise<void> {
+  const crashed = [...LIVE_RENDERERS].filter((renderer) => !CONSOLE_ON_ERROR.has(renderer));
+  await Promise.all(crashed.map(destroyed));
+  if (LIVE_RENDERERS.size > 0) return;
+  const message = error instanceof Error ? (error.stack ?? error.message) : String(error);
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+}
+
+// Whatever else ends the process, such as a call to `process.exit`, the
+// terminal is restored on the way out. Nothing runs after this, so a renderer
+// in the middle of a frame can't be waited for.
+function onProcessExit(): void {
+  for (const renderer of [...LIVE_RENDERERS]) renderer.destroy();
+}
+
+function installProcessHandlers(): void {
+  for (const signal of HANDLED_SIGNALS) process.on(signal, onSignal);
+  process.on("uncaughtException", onCrash);
+  process.on("unhandledRejection", onCrash);
+  process.on("exit", onProcessExit);
+}
+
+function removeProcessHandlers(): void {
+  for (const signal of HANDLED_SIGNALS) process.off(signal, onSignal);
+  process.off("uncaughtException", onCrash);
+  process.off("unhandledRejection", onCrash);
+  process.off("exit", onProcessExit);
+}
+
 // MOUNT -----------------------------------------------------------------------
 
 export function mount(renderer: CliRenderer): [RootRenderable, unknown] {
   const root = renderer.root;
+  RENDERERS.set(root, renderer);  // Store for effects
+  MOUNTED_RENDERERS.add(renderer);
+  renderer.once("destroy", () => MOUNTED_RENDERERS.delete(renderer));
+
+  // Lustre runs the effects from `init` right after mounting.
+  currentRenderer = renderer;
+  queueMicrotask(() => {
+    if (currentRenderer === renderer) currentRenderer = null;
+  });
+  installKeyDispatch(renderer);
+  installMouseDispatch(renderer);
+  installLayoutWatch(renderer);
+  installFocusWatch(renderer);
 
   // Add no-op shims for Lustre's context system
   // @ts-ignore
@@ -212,12 +526,168 @@ export function mount(renderer: CliRenderer): [RootRenderable, unknown] {
   insertMetadataChild(element_kind, null, root, 0, null);
 
   // Start the renderer's render loop so requestRender() actually flushes frames.
-  renderer.start();
+  // Headless renderers are rendered explicitly by the test harness instead.
+  if (!HEADLESS_RENDERERS.has(renderer)) {
+    renderer.start();
+  }
 
   // Fresh TUI — no existing children to virtualise.
   return [root, none()];
 }
 
+// CUSTOM ELEMENTS -------------------------------------------------------------
+
+// How a custom attribute's string value is turned into the property's value.
+type Coercion = "string" | "int" | "float" | "bool";
+
+// Whether a custom event is emitted through node.on or assigned to a callback
+// property such as onChange.
+type EventKind = "emitter" | "property";
+
+interface CustomElement {
+  create: (renderer: CliRenderer) => TuiNode;
+  attributes: Map<string, { property: string; coercion: Coercion }>;
+  events: Map<string, { kind: EventKind; target: string }>;
+}
+
+// Tags registered through `lustre/platform/opentui/registry`. They are looked
+// up before the built-in tags, so a registration can also replace one.
+const CUSTOM_ELEMENTS = new Map<string, CustomElement>();
+
+// Nodes created for a custom tag → its definition, for attribute and event
+// lookups.
+const CUSTOM_NODES = new WeakMap<object, CustomElement>();
+
+export function register_element(tag: string, create: (renderer: CliRenderer) => TuiNode): undefined {
+  CUSTOM_ELEMENTS.set(tag, { create, attributes: new Map(), events: new Map() });
+  return undefined;
+}
+
+export function register_attribute(tag: string, name: string, property: string, coercion: Coercion): undefined {
+  CUSTOM_ELEMENTS.get(tag)?.attributes.set(name, { property, coercion });
+  return undefined;
+}
+
+export function register_event(tag: string, name: string, kind: EventKind, target: string): undefined {
+  CUSTOM_ELEMENTS.get(tag)?.events.set(name, { kind, target });
+  return undefined;
+}
+
+function customAttribute(node: TuiNode, name: string): { property: string; coercion: Coercion } | undefined {
+  return CUSTOM_NODES.get(node)?.attributes.get(name);
+}
+
+function customEvent(node: TuiNode, name: string): { kind: EventKind; target: string } | undefined {
+  return CUSTOM_NODES.get(node)?.events.get(name);
+}
+
+function coerceAs(coercion: Coercion, value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  switch (coercion) {
+    case "int": return /^-?\d+$/.test(value) ? parseInt(value, 10) : value;
+    case "float": return /^-?\d+\.?\d*$/.test(value) ? parseFloat(value) : value;
+    case "bool": return value === "true";
+    case "string": return value;
+  }
+}
+
+// DIAGNOSTICS -----------------------------------------------------------------
+
+// Dev mode state for one renderer: the problems already reported, so that each
+// is reported once, and the listeners subscribed through effects.
+interface Diagnostics {
+  reported: Set<string>;
+  listeners: Set<(message: string) => void>;
+}
+
+// A problem noticed while creating a node, reported once the node exists.
+interface Problem {
+  key: string;
+  message: string;
+}
+
+const DIAGNOSTICS = new WeakMap<CliRenderer, Diagnostics>();
+
+// Nodes created while dev mode is on → their renderer's diagnostics, and the
+// tag each was created for, used to describe where a problem happened.
+const DIAGNOSED_NODES = new WeakMap<object, Diagnostics>();
+const NODE_TAGS = new WeakMap<object, string>();
+
+// Values a numeric layout property accepts besides integers.
+const LAYOUT_KEYWORD = /^(auto|-?\d+(\.\d+)?%)$/;
+
+export function enable_diagnostics(renderer: CliRenderer): void {
+  if (!DIAGNOSTICS.has(renderer)) {
+    DIAGNOSTICS.set(renderer, { reported: new Set(), listeners: new Set() });
+  }
+}
+
+// Listen for the problems reported on `renderer`, returning the function that
+// stops listening. Renderers without dev mode never report anything.
+export function on_diagnostic(renderer: CliRenderer, listener: (message: string) => void): () => void {
+  const diagnostics = DIAGNOSTICS.get(renderer);
+  if (!diagnostics) return () => {};
+  diagnostics.listeners.add(listener);
+  return () => {
+    diagnostics.listeners.delete(listener);
+  };
+}
+
+// The tags from the root down to `node`, with the ids the view gave them:
+// `box > scrollbox#log > text`.
+function elementPath(node: TuiNode): string {
+  const parts: string[] = [];
+  for (let current: TuiNode | undefined = node; current; current = parentOf(current)) {
+    const tag = NODE_TAGS.get(current);
+    if (tag === undefined) break;
+    const id = current.id;
+    parts.unshift(id && !id.startsWith("renderable-") ? `${tag}#${id}` : tag);
+  }
+  return parts.join(" > ");
+}
+
+// Report a problem with `node` the first time it happens. Nodes get their
+// attributes before they are inserted, so the path is worked out once the
+// current reconciliation has finished.
+function diagnose(node: TuiNode, problem: Problem): void {
+  const diagnostics = DIAGNOSED_NODES.get(node);
+  if (!diagnostics || diagnostics.reported.has(problem.key)) return;
+  diagnostics.reported.add(problem.key);
+
+  queueMicrotask(() => {
+    const message = `${problem.message} (at ${elementPath(node)})`;
+    console.warn(`[lustre/opentui] ${message}`);
+    for (const listener of diagnostics.listeners) listener(message);
+  });
+}
+
+// Check an attribute that falls through to a plain property assignment: the
+// property should exist on the node, and numeric properties should get a
+// value `coerceValue` can turn into a number.
+function checkAttribute(node: TuiNode, name: string, prop: string, value: unknown): void {
+  if (!DIAGNOSED_NODES.has(node)) return;
+  const tag = NODE_TAGS.get(node);
+
+  if (!(prop in node)) {
+    diagnose(node, {
+      key: `attribute:${tag}:${name}`,
+      message: `Unknown attribute "${name}" on <${tag}>`,
+    });
+    return;
+  }
+
+  if (typeof value !== "string") return;
+  const valid = NUMERIC_PROPS.has(prop)
+    ? /^-?\d+$/.test(value) || LAYOUT_KEYWORD.test(value)
+    : !FLOAT_PROPS.has(prop) || /^-?\d+\.?\d*$/.test(value);
+  if (!valid) {
+    diagnose(node, {
+      key: `value:${tag}:${name}:${value}`,
+      message: `Attribute "${name}" on <${tag}> expects a number, got "${value}"`,
+    });
+  }
+}
+
 // NODE CREATION ---------------------------------------------------------------
 
 // TuiFragment — a virtual container whose children get reparented on insert.
@@ -255,41 +725,127 @@ class TuiComment {
   }
 }
 
-// TuiTextNode — a lightweight wrapper around a string. The reconciler needs an
-// object it can attach metadata to (via Symbol). When inserted into a parent
-// TextRenderable, we pass the string content to parent.add() and store a
-// reference to the parent so set_text can update it later.
+// TuiTextNode — a text vnode. The reconciler needs an object it can attach
+// metadata to (via Symbol), so the string lives in its own TextNodeRenderable
+// chunk. Inside a TextRenderable each text child is one chunk, which keeps
+// siblings intact when one of them changes and lets chunks be inserted, moved
+// and removed individually.
 class TuiTextNode {
   data: string;
+  chunk: TextNodeRenderable;
   _parent?: TuiNode | TuiFragment;
 
   constructor(content?: string) {
     this.data = content ?? "";
+    this.chunk = TextNodeRenderable.fromString(this.data);
     this._parent = undefined;
+    TEXT_NODES.set(this.chunk, this);
+  }
+}
+
+// Text chunk → the TuiTextNode that owns it, so sibling lookups inside a text
+// element can hand the reconciler back its own nodes.
+const TEXT_NODES = new WeakMap<TextNodeRenderable, TuiTextNode>();
+
+type TextParent = TextRenderable | TextNodeRenderable;
+
+// Text renderables and text nodes keep their children as text chunks rather
+// than as layout children.
+function isTextParent(node: unknown): node is TextParent {
+  return node instanceof TextRenderable || isTextNodeRenderable(node);
+}
+
+function textChildren(parent: TextParent): unknown[] {
+  return parent instanceof TextRenderable ? parent.getTextChildren() : parent.getChildren();
+}
+
+function removeTextChild(parent: TextParent, chunk: TextNodeRenderable): void {
+  try { parent.remove(chunk.id); } catch { /* not found */ }
+}
+
+function insertTextChild(parent: TextParent, chunk: TextNodeRenderable, ref: unknown): void {
+  if (chunk.parent) {
+    removeTextChild(chunk.parent, chunk);
+  }
+  const anchor = ref instanceof TuiTextNode ? ref.chunk : ref;
+  if (isTextNodeRenderable(anchor) && textChildren(parent).includes(anchor)) {
+    parent.insertBefore(chunk, anchor);
+  } else {
+    parent.add(chunk);
   }
 }
 
 export function make_create_element(renderer: CliRenderer): (ns: string | null, tag: string) => TuiNode {
   return (_ns: string | null, tag: string): TuiNode => {
-    const Ctor = RENDERABLE_MAP[tag];
+    const diagnostics = DIAGNOSTICS.get(renderer);
+    const problems: Problem[] = [];
+    const node = createNode(renderer, tag, diagnostics ? problems : undefined);
+    watchMouse(renderer, node);
+
+    if (diagnostics) {
+      DIAGNOSED_NODES.set(node, diagnostics);
+      NODE_TAGS.set(node, tag);
+      for (const problem of problems) diagnose(node, problem);
+    }
 
-    if (Ctor) {
-      try {
-        if (tag === "slider") {
-          return new Ctor(renderer, { orientation: "horizontal" });
-        }
-        if (tag === "framebuffer") {
-          return new Ctor(renderer, { width: 1, height: 1 });
-        }
-        return new Ctor(renderer, {});
-      } catch {
-        // Fall through to BoxRenderable fallback
+    return node;
+  };
+}
+
+// Create the renderable for `tag`. In dev mode, `problems` collects what went
+// wrong on the way; otherwise failures fall back silently as before.
+function createNode(renderer: CliRenderer, tag: string, problems: Problem[] | undefined): TuiNode {
+  const custom = CUSTOM_ELEMENTS.get(tag);
+  if (custom) {
+    try {
+      const node = custom.create(renderer);
+      CUSTOM_NODES.set(node, custom);
+      return node;
+    } catch (error) {
+      if (problems) {
+        problems.push({
+          key: `create:${tag}`,
+          message: `Failed to create custom element <${tag}>: ${error}`,
+        });
+      } else {
+        console.error(`Failed to create custom element "${tag}":`, error);
       }
     }
+  }
 
-    // Unknown tags fall back to a box container.
-    return new (BoxRenderable as unknown as RenderableConstructor)(renderer, {});
-  };
+  // Spans are styled runs of text inside a text element rather than
+  // renderables with a layout of their own.
+  if (tag === "span") {
+    return new TextNodeRenderable({}) as unknown as TuiNode;
+  }
+
+  const Ctor = RENDERABLE_MAP[tag];
+
+  if (Ctor) {
+    try {
+      if (tag === "slider") {
+        return new Ctor(renderer, { orientation: "horizontal" });
+      }
+      if (tag === "framebuffer") {
+        return new Ctor(renderer, { width: 1, height: 1 });
+      }
+      return new Ctor(renderer, {});
+    } catch (error) {
+      // Fall through to BoxRenderable fallback
+      problems?.push({
+        key: `create:${tag}`,
+        message: `Failed to create <${tag}>, using a box instead: ${error}`,
+      });
+    }
+  } else if (!custom) {
+    problems?.push({
+      key: `tag:${tag}`,
+      message: `Unknown tag <${tag}>, using a box instead`,
+    });
+  }
+
+  // Unknown tags fall back to a box container.
+  return new (BoxRenderable as unknown as RenderableConstructor)(renderer, {});
 }
 
 const create_text_node = (content: string): TuiTextNode => new TuiTextNode(content);
@@ -303,7 +859,7 @@ const create_comment = (data: string): TuiComment => new TuiComment(data);
 function doInsertBefore(
   parent: TuiNode | TuiFragment,
   node: TuiNode | TuiFragment | TuiComment | TuiTextNode,
-  refNode: TuiNode | null
+  refNode: TuiNode | TuiTextNode | null
 ): void {
   if (node instanceof TuiFragment) {
     for (const child of node.children) {
@@ -322,15 +878,14 @@ function doInsertBefore(
     return;
   }
 
-  // TuiTextNode is a lightweight wrapper for text vnodes. For TuiFragment parents,
-  // we keep the TuiTextNode object so reparenting works. For actual TUI renderables
-  // (like TextRenderable), we pass the string content since that's what they expect.
+  // For TuiFragment parents we keep the TuiTextNode object so reparenting
+  // works. Text elements get its chunk; other renderables can't show text.
   if (node instanceof TuiTextNode) {
     node._parent = parent;
     if (parent instanceof TuiFragment) {
       parent.add(node);
-    } else if ((parent as TuiNode).add) {
-      (parent as TuiNode).add!(node.data);
+    } else if (isTextParent(parent)) {
+      insertTextChild(parent, node.chunk, refNode);
     }
     return;
   }
@@ -338,7 +893,15 @@ function doInsertBefore(
   // Track parent reference for all TUI nodes so next_sibling can traverse.
   (node as TuiNode)._parent = parent;
 
-  if (refNode != null && (parent as TuiNode).insertBefore) {
+  // Spans become text chunks of the text element they're in.
+  if (isTextNodeRenderable(node)) {
+    if (isTextParent(parent)) {
+      insertTextChild(parent, node, refNode);
+    }
+    return;
+  }
+
+  if (refNode != null && !(refNode instanceof TuiTextNode) && (parent as TuiNode).insertBefore) {
     (parent as TuiNode).insertBefore!(node as TuiNode, refNode);
   } else if ((parent as TuiNode).add) {
     (parent as TuiNode).add!(node as TuiNode);
@@ -346,13 +909,18 @@ function doInsertBefore(
 }
 
 const insert_before = (parent: TuiNode, node: TuiNode | TuiFragment | TuiComment | TuiTextNode, ref: unknown): void => {
-  const refNode = unwrapResult<TuiNode>(ref);
+  const refNode = unwrapResult<TuiNode | TuiTextNode>(ref);
   doInsertBefore(parent, node, refNode);
 };
 
 const move_before = (parent: TuiNode, node: TuiNode | TuiTextNode, ref: unknown): void => {
-  if (node instanceof TuiTextNode) return;
-  const refNode = unwrapResult<TuiNode>(ref);
+  const refNode = unwrapResult<TuiNode | TuiTextNode>(ref);
+
+  // Text chunks are taken out of their old position by the insert itself.
+  if (node instanceof TuiTextNode) {
+    doInsertBefore(parent, node, refNode);
+    return;
+  }
 
   // Remove from current position
   if (node.id != null && parent.remove) {
@@ -364,16 +932,92 @@ const move_before = (parent: TuiNode, node: TuiNode | TuiTextNode, ref: unknown)
 };
 
 const remove_child = (parent: TuiNode, child: TuiNode | TuiComment | TuiFragment | TuiTextNode): void => {
-  if (child instanceof TuiComment || child instanceof TuiFragment || child instanceof TuiTextNode) {
+  if (child instanceof TuiTextNode) {
+    if (isTextParent(parent)) {
+      removeTextChild(parent, child.chunk);
+    }
+    child._parent = undefined;
+    return;
+  }
+
+  if (child instanceof TuiComment) {
+    child._parent = undefined;
+    return;
+  }
+
+  // A fragment that was never inserted still owns its children.
+  if (child instanceof TuiFragment) {
+    for (const fragmentChild of child.children) {
+      remove_child(parent, fragmentChild);
+    }
+    child.children = [];
     return;
   }
 
   if (child.id != null && parent.remove) {
     try { parent.remove(child.id); } catch { /* not found */ }
   }
+  destroyNode(child);
 };
 
-const next_sibling = (node: TuiNode): unknown => {
+// Work started on a node from outside it, such as an effect's scroll
+// animation, that has to stop when the node is destroyed.
+const DESTROY_CALLBACKS = new WeakMap<Renderable, Set<() => void>>();
+
+// Call `callback` when `node` is destroyed along with a subtree that left the
+// tree, returning the function that cancels the call.
+export function on_destroyed(node: Renderable, callback: () => void): () => void {
+  let callbacks = DESTROY_CALLBACKS.get(node);
+  if (!callbacks) {
+    callbacks = new Set();
+    DESTROY_CALLBACKS.set(node, callbacks);
+  }
+  callbacks.add(callback);
+  return () => callbacks.delete(callback);
+}
+
+// Destroy a subtree that left the tree for good. Its Lustre listeners are
+// dropped and its destroy callbacks run first, then OpenTUI destroys every
+// renderable in it: that frees their yoga nodes and calls `destroySelf`, where
+// custom renderables clean up after themselves.
+function destroyNode(node: TuiNode): void {
+  forgetNode(node);
+  releaseFocusScopes(node);
+  if (!node.isDestroyed) {
+    node.destroyRecursively();
+  }
+}
+
+function forgetNode(node: TuiNode): void {
+  nodeHandlers.delete(node);
+  for (const callback of DESTROY_CALLBACKS.get(node) ?? []) callback();
+  DESTROY_CALLBACKS.delete(node);
+  for (const child of node.getChildren?.() ?? []) {
+    forgetNode(child as TuiNode);
+  }
+}
+
+// The number of renderables created for a renderer that haven't been destroyed
+// yet, whether or not they are still in the tree. A count that keeps growing
+// while the UI looks the same points at a leak.
+export function live_renderable_count(renderer: CliRenderer): number {
+  let count = 0;
+  for (const renderable of Renderable.renderablesByNumber.values()) {
+    if (renderable.ctx === renderer) count++;
+  }
+  return count;
+}
+
+const next_sibling = (node: TuiNode | TuiTextNode): unknown => {
+  if (isTextParent(node._parent)) {
+    const children = textChildren(node._parent);
+    const index = children.indexOf(node instanceof TuiTextNode ? node.chunk : node);
+    const next = index === -1 ? undefined : children[index + 1];
+    if (next === undefined) return Result$Error(undefined);
+    return Result$Ok(TEXT_NODES.get(next as TextNodeRenderable) ?? next);
+  }
+
+  if (node instanceof TuiTextNode) return Result$Error(undefined);
   const parent = node._parent as TuiNode | undefined;
   if (!parent || !parent.getChildren) return Result$Error(undefined);
   const children = parent.getChildren();
@@ -436,6 +1080,8 @@ const ATTR_MAP: Record<string, string> = {
   // Text components (TextBufferRenderable): use fg/bg
   "fg": "fg",
   "bg": "bg",
+  // Text and spans: an OSC 8 hyperlink for the text
+  "href": "link",
   // Box components: use backgroundColor
   "background-color": "backgroundColor",
   // Textarea/Input: use focusedBackgroundColor/focusedTextColor
@@ -544,6 +1190,15 @@ const ATTR_MAP: Record<string, string> = {
   "sticky-scroll": "stickyScroll",
   "sticky-start": "stickyStart",
   "viewport-culling": "viewportCulling",
+
+  // Portal
+  "backdrop": "backdrop",
+  "stack-order": "stackOrder",
+
+  // Table
+  "sticky-header": "stickyHeader",
+  "multi-select": "multiSelect",
+  "header-color": "headerColor",
 };
 
 const BOOLEAN_PROPS = new Set([
@@ -554,6 +1209,7 @@ const BOOLEAN_PROPS = new Set([
   "showLineNumbers", "showScrollIndicator", "wrapSelection", "showDescription",
   "showScrollArrows", "showUnderline",
   "stickyScroll", "viewportCulling",
+  "stickyHeader", "multiSelect",
 ]);
 
 // Map of text styling attributes to their TextAttributes flag values.
@@ -570,6 +1226,9 @@ const TEXT_ATTR_FLAGS: Record<string, number> = {
 };
 
 function coerceValue(prop: string, value: unknown): unknown {
+  if (prop === "link" && typeof value === "string") {
+    return value === "" ? undefined : { url: value };
+  }
   if (BOOLEAN_PROPS.has(prop) && typeof value === "string") {
     return value === "true";
   }
@@ -587,13 +1246,45 @@ function coerceValue(prop: string, value: unknown): unknown {
 }
 
 const get_attribute = (node: TuiNode, name: string): unknown => {
+  const custom = customAttribute(node, name);
+  if (custom) {
+    const value = node[custom.property];
+    return value != null ? Result$Ok(String(value)) : Result$Error(undefined);
+  }
+
   const prop = ATTR_MAP[name] ?? name;
-  const value = node[prop];
+  const value = prop === "link" ? (linkOwner(node).link as { url?: string } | undefined)?.url : node[prop];
   return value != null ? Result$Ok(String(value)) : Result$Error(undefined);
 };
 
+// A text element's hyperlink lives on its root text node, which passes it on to
+// every chunk of text inside.
+function linkOwner(node: TuiNode): TuiNode {
+  return node instanceof TextRenderable ? node.textNode as unknown as TuiNode : node;
+}
+
 const set_attribute = (node: TuiNode, name: string, value: unknown): void => {
+  const custom = customAttribute(node, name);
+  if (custom) {
+    node[custom.property] = coerceAs(custom.coercion, value ?? "");
+    return;
+  }
+
   const prop = ATTR_MAP[name] ?? name;
+  if (prop === "link") {
+    linkOwner(node).link = coerceValue(prop, value ?? "");
+    return;
+  }
+  // Focus order and scopes are kept by the platform rather than OpenTUI,
+  // see `focus_order`.
+  if (name === "tab-index") {
+    TAB_INDEXES.set(node, parseInt(String(value), 10) || 0);
+    return;
+  }
+  if (name === "focus-scope" || name === "focus-trap") {
+    setFocusScope(node, String(value ?? ""), name === "focus-trap");
+    return;
+  }
   // Handle text styling attributes by combining into `attributes` property.
   const flag = TEXT_ATTR_FLAGS[prop];
   if (flag !== undefined) {
@@ -602,10 +1293,17 @@ const set_attribute = (node: TuiNode, name: string, value: unknown): void => {
     node.attributes = enabled ? (current | flag) : (current & ~flag);
     return;
   }
+  checkAttribute(node, name, prop, value);
   node[prop] = coerceValue(prop, value ?? "");
 };
 
 const remove_attribute = (node: TuiNode, name: string): void => {
+  const custom = customAttribute(node, name);
+  if (custom) {
+    node[custom.property] = undefined;
+    return;
+  }
+
   const prop = ATTR_MAP[name] ?? name;
   // Handle text styling attributes by clearing the flag.
   const flag = TEXT_ATTR_FLAGS[prop];
@@ -614,6 +1312,18 @@ const remove_attribute = (node: TuiNode, name: string): void => {
     node.attributes = current & ~flag;
     return;
   }
+  if (prop === "link") {
+    linkOwner(node).link = undefined;
+    return;
+  }
+  if (name === "tab-index") {
+    TAB_INDEXES.delete(node);
+    return;
+  }
+  if (name === "focus-scope" || name === "focus-trap") {
+    FOCUS_WATCHES.get(node.ctx)?.scopes.delete(node);
+    return;
+  }
   node[prop] = undefined;
 };
 
@@ -631,12 +1341,7 @@ const set_property = (node: TuiNode, name: string, value: unknown): void => {
 const set_text = (node: TuiNode | TuiTextNode, content: string | null): void => {
   if (node instanceof TuiTextNode) {
     node.data = content ?? "";
-    // Update the parent TextRenderable — clear and re-add the text.
-    const parent = node._parent as TuiNode | undefined;
-    if (parent && parent.clear) {
-      parent.clear();
-      parent.add!(node.data);
-    }
+    node.chunk.children = [node.data];
   } else {
     node.content = content ?? "";
   }
@@ -656,23 +1361,8 @@ export function make_set_raw_content(renderer: CliRenderer): (node: TuiNode, con
     if (actualContent && typeof actualContent === "object" && actualContent.id !== undefined) {
       // Clear existing children first - also destroy them to free yoga nodes
       if (node.getChildren) {
-        const existingChildren = [...node.getChildren()];
-        for (const child of existingChildren) {
-          if (node.remove) {
-            try {
-              node.remove(child.id!);
-            } catch {
-              // not found
-            }
-          }
-          // Destroy the child to free its yoga node
-          if (child.destroySelf) {
-            try {
-              child.destroySelf();
-            } catch {
-              // ignore
-            }
-          }
+        for (const child of [...node.getChildren()]) {
+          destroyNode(child as TuiNode);
         }
       }
       doInsertBefore(node, actualContent, null);
@@ -682,7 +1372,16 @@ export function make_set_raw_content(renderer: CliRenderer): (node: TuiNode, con
 
 // EVENTS ----------------------------------------------------------------------
 
-// Synthetic event wrapper for TUI events.
+// OpenTUI event objects that can cancel the renderable's default handling,
+// e.g. an input inserting the key that was pressed.
+interface NativeEvent {
+  preventDefault?: () => void;
+}
+
+// Synthetic event wrapper for TUI events. Keyboard, mouse and paste events
+// travel through the listening ancestors of their target like DOM events do:
+// first capture listeners from the outermost ancestor down, then regular
+// listeners from the target back up.
 class TuiSyntheticEvent {
   type: string;
   currentTarget: TuiNode;
@@ -690,20 +1389,23 @@ class TuiSyntheticEvent {
   bubbles: boolean;
   defaultPrevented: boolean;
   _propagationStopped: boolean;
+  _native?: NativeEvent;
   detail: Record<string, unknown>;
 
-  constructor(type: string, target: TuiNode) {
+  constructor(type: string, target: TuiNode, native?: NativeEvent) {
     this.type = type;
     this.currentTarget = target;
     this.target = target;
     this.bubbles = true;
     this.defaultPrevented = false;
     this._propagationStopped = false;
+    this._native = native;
     this.detail = {};
   }
 
   preventDefault(): void {
     this.defaultPrevented = true;
+    this._native?.preventDefault?.();
   }
 
   stopPropagation(): void {
@@ -715,19 +1417,23 @@ class TuiSyntheticEvent {
   }
 }
 
-// Mouse events use property setters on the renderable.
-const MOUSE_PROP_MAP: Record<string, string> = {
-  "click": "onMouseDown",
-  "mousedown": "onMouseDown",
-  "mouseup": "onMouseUp",
-  "mousemove": "onMouseMove",
-  "mouseover": "onMouseOver",
-  "mouseout": "onMouseOut",
-  "scroll": "onMouseScroll",
-  "mouse": "onMouse",
-  "mousedrag": "onMouseDrag",
-  "mousedragend": "onMouseDragEnd",
-  "mousedrop": "onMouseDrop",
+// Listeners registered under `name + CAPTURE_SUFFIX` run during the capture
+// phase of `name`.
+const CAPTURE_SUFFIX = ":capture";
+
+// OpenTUI mouse event types → the Lustre events they are dispatched as. Every
+// mouse event is also dispatched as "mouse", and "click" is synthesised from a
+// press and release, see `installMouseDispatch`.
+const MOUSE_EVENT_MAP: Record<string, string> = {
+  "down": "mousedown",
+  "up": "mouseup",
+  "move": "mousemove",
+  "over": "mouseover",
+  "out": "mouseout",
+  "scroll": "scroll",
+  "drag": "mousedrag",
+  "drag-end": "mousedragend",
+  "drop": "mousedrop",
 };
 
 // Events that go through the EventEmitter API (node.on / node.off).
@@ -739,16 +1445,28 @@ const EMITTER_EVENT_MAP: Record<string, string> = {
   "submit": "enter",
   "resize": "resized",
   "select": "itemSelected",
+  "rowselect": "rowSelected",
+  "sort": "sortChanged",
+  "rowsselect": "rowsSelected",
+  "backdropclick": "backdropClicked",
 };
 
-// Keyboard events use property setters — once a node is focused (via the
-// focus_next/focus_previous effects), OpenTUI's internal focus handler calls
-// the node's onKeyDown callback.
-const KEYBOARD_PROP_MAP: Record<string, string> = {
-  "keydown": "onKeyDown",
-  "keypress": "onKeyDown",
-  "keyup": "onKeyDown",
-};
+// Events dispatched by the renderer rather than hooked up per node. Keyboard
+// and paste events go from the renderer's key input to the focused renderable
+// and its ancestors, see `installKeyDispatch`. They run before the focused
+// renderable's own key handling, so preventing their default stops e.g. an
+// input from inserting the key. Mouse events are picked up once they have
+// bubbled to the root, see `installMouseDispatch`.
+const DISPATCHED_EVENTS = new Set([
+  "keydown",
+  "keypress",
+  "keyup",
+  "paste",
+  "click",
+  "linkclick",
+  "mouse",
+  ...Object.values(MOUSE_EVENT_MAP),
+]);
 
 // Events that use property setters but aren't mouse/keyboard.
 const PROPERTY_EVENT_MAP: Record<string, string> = {
@@ -770,10 +1488,257 @@ function getHandlers(node: TuiNode): Map<string, EventHandler> {
   return handlers;
 }
 
+// The event a listener name belongs to, without its capture suffix.
+function eventType(name: string): string {
+  return name.endsWith(CAPTURE_SUFFIX) ? name.slice(0, -CAPTURE_SUFFIX.length) : name;
+}
+
+// A key is printable when it produced a single visible character and no
+// modifier other than shift was held, i.e. it would be typed into an input.
+function isPrintable(keyEvent: KeyEventData): boolean {
+  const sequence = keyEvent?.sequence ?? "";
+  if ([...sequence].length !== 1) return false;
+  if (keyEvent?.ctrl || keyEvent?.meta || keyEvent?.super) return false;
+  const code = sequence.codePointAt(0)!;
+  return code >= 0x20 && code !== 0x7f;
+}
+
+// OpenTUI reports mouse positions in screen cells. Handlers get both those and
+// the position relative to the listening node, plus the ids of the renderables
+// involved so drag-and-drop can tell source and target apart.
+function mouseEventDetail(node: TuiNode, mouseEvent: MouseEventData): Record<string, unknown> {
+  const screenX = mouseEvent?.x ?? 0;
+  const screenY = mouseEvent?.y ?? 0;
+  return {
+    type: mouseEvent?.type ?? "",
+    x: screenX - node.x,
+    y: screenY - node.y,
+    screenX,
+    screenY,
+    button: mouseEvent?.button ?? 0,
+    shift: !!mouseEvent?.modifiers?.shift,
+    alt: !!mouseEvent?.modifiers?.alt,
+    ctrl: !!mouseEvent?.modifiers?.ctrl,
+    scrollDirection: mouseEvent?.scroll?.direction ?? "",
+    scrollDelta: mouseEvent?.scroll?.delta ?? 0,
+    isDragging: !!mouseEvent?.isDragging,
+    sourceId: mouseEvent?.source?.id ?? "",
+    targetId: mouseEvent?.target?.id ?? "",
+  };
+}
+
+// Shared by element keyboard listeners and the keyboard subscription effect.
+export function keyEventDetail(keyEvent: KeyEventData): KeyEventDetail {
+  return {
+    key: keyEvent?.name ?? keyEvent?.key ?? "",
+    ctrl: !!keyEvent?.ctrl,
+    shift: !!keyEvent?.shift,
+    meta: !!keyEvent?.meta,
+    repeated: !!keyEvent?.repeated || keyEvent?.eventType === "repeat",
+    released: keyEvent?.eventType === "release",
+    option: !!keyEvent?.option,
+    super: !!keyEvent?.super,
+    sequence: keyEvent?.sequence ?? "",
+    printable: isPrintable(keyEvent),
+  };
+}
+
 function fireEvent(name: string, node: TuiNode, data: unknown, handler: EventHandler): void {
   const event = new TuiSyntheticEvent(name, node);
   event.detail = (data as Record<string, unknown>) ?? {};
-  handler(event);
+  within(node.ctx as CliRenderer, () => handler(event));
+}
+
+// Renderables Lustre inserted know their parent element through `_parent`,
+// which skips the wrappers some renderables (e.g. scroll boxes) put around
+// their children. Anything else falls back to OpenTUI's own parent.
+function parentOf(node: TuiNode): TuiNode | undefined {
+  const parent = node._parent ?? node.parent;
+  if (!parent || parent instanceof TuiFragment) return undefined;
+  return parent as TuiNode;
+}
+
+// Run `name` through the capture and bubble phases of the listeners on
+// `target` and its ancestors. The detail is built for each listening node so
+// that positions can be reported relative to it.
+function dispatchEvent(
+  name: string,
+  target: TuiNode,
+  native: NativeEvent | undefined,
+  detail: (node: TuiNode) => Record<string, unknown>,
+): void {
+  const path: TuiNode[] = [];
+  let node: TuiNode | undefined = target;
+  while (node) {
+    if (nodeHandlers.has(node)) path.push(node);
+    node = parentOf(node);
+  }
+
+  const event = new TuiSyntheticEvent(name, target, native);
+  const invoke = (node: TuiNode, listener: string): void => {
+    const handler = nodeHandlers.get(node)?.get(listener);
+    if (!handler || event._propagationStopped) return;
+    event.currentTarget = node;
+    event.detail = detail(node);
+    within(node.ctx as CliRenderer, () => handler(event));
+  };
+
+  for (const node of [...path].reverse()) {
+    invoke(node, name + CAPTURE_SUFFIX);
+  }
+  for (const node of path) {
+    invoke(node, name);
+    if (!event.bubbles) break;
+  }
+}
+
+// The closest renderable containing both `a` and `b`.
+function commonAncestor(a: TuiNode, b: TuiNode): TuiNode | undefined {
+  const ancestors = new Set<TuiNode>();
+  for (let node: TuiNode | undefined = a; node; node = parentOf(node)) {
+    ancestors.add(node);
+  }
+  for (let node: TuiNode | undefined = b; node; node = parentOf(node)) {
+    if (ancestors.has(node)) return node;
+  }
+  return undefined;
+}
+
+// Called once per renderer when an app is mounted. Global key input listeners
+// run before the focused renderable's handlers, so this is where keyboard and
+// paste events start their way from the focused renderable up the tree.
+function installKeyDispatch(renderer: CliRenderer): void {
+  const focused = (): TuiNode | null =>
+    renderer.currentFocusedRenderable as TuiNode | null;
+
+  renderer.keyInput.on("keypress", (keyEvent) => {
+    const target = focused();
+    if (!target) return;
+    const detail = () => ({ ...keyEventDetail(keyEvent as KeyEventData) });
+    dispatchEvent("keydown", target, keyEvent, detail);
+    dispatchEvent("keypress", target, keyEvent, detail);
+  });
+
+  // OpenTUI only reports key releases when the Kitty keyboard protocol sends
+  // event types, and never hands them to the focused renderable itself.
+  renderer.keyInput.on("keyrelease", (keyEvent) => {
+    const target = focused();
+    if (!target) return;
+    const detail = () => ({ ...keyEventDetail(keyEvent as KeyEventData) });
+    dispatchEvent("keyup", target, keyEvent, detail);
+  });
+
+  renderer.keyInput.on("paste", (pasteEvent) => {
+    const target = focused();
+    if (!target) return;
+    const detail = () => ({ text: (pasteEvent as PasteEvent)?.text ?? "" });
+    dispatchEvent("paste", target, pasteEvent, detail);
+  });
+}
+
+// Renderers with a mounted app → the function that dispatches their mouse
+// events to Lustre listeners.
+const MOUSE_DISPATCHERS = new WeakMap<CliRenderer, (mouseEvent: MouseEvent) => void>();
+
+// Mouse events already handed to Lustre listeners.
+const SEEN_MOUSE_EVENTS = new WeakSet<MouseEvent>();
+
+// OpenTUI hands every mouse event to the renderable it targets, which passes it
+// on to its parents unless a handler stops it, as sliders and scroll bar arrows
+// do. A renderable's `onMouse` handler runs before any of that, so each of the
+// app's renderables, and the parts of its scroll bars, hands the first event
+// it sees to Lustre listeners. They then run on every ancestor of the target
+// whatever OpenTUI's own handlers do with it.
+function watchMouse(renderer: CliRenderer, node: TuiNode | Renderable): void {
+  if (!(node instanceof Renderable)) return;
+  const onMouse = (mouseEvent: MouseEvent): void => {
+    if (SEEN_MOUSE_EVENTS.has(mouseEvent)) return;
+    SEEN_MOUSE_EVENTS.add(mouseEvent);
+    MOUSE_DISPATCHERS.get(renderer)?.(mouseEvent);
+  };
+
+  node.onMouse = onMouse;
+  if (node instanceof ScrollBoxRenderable) {
+    for (const bar of [node.verticalScrollBar, node.horizontalScrollBar]) {
+      for (const part of [bar, bar.slider, bar.startArrow, bar.endArrow]) part.onMouse = onMouse;
+    }
+  }
+}
+
+// Called once per renderer when an app is mounted. A single dispatcher per
+// renderer dispatches each mouse event to all Lustre listeners from its target
+// up, however many events a node listens to.
+function installMouseDispatch(renderer: CliRenderer): void {
+  // A click is a press and release of the same button without dragging in
+  // between. It targets the closest element containing both.
+  let press: { target: TuiNode; button: number } | undefined;
+
+  watchMouse(renderer, renderer.root);
+  MOUSE_DISPATCHERS.set(renderer, (mouseEvent) => {
+    const data = mouseEvent as MouseEventData;
+    const target = mouseEvent.target as TuiNode | null;
+    if (!target) return;
+    const detail = (node: TuiNode) => mouseEventDetail(node, data);
+
+    dispatchEvent("mouse", target, mouseEvent, detail);
+    const name = MOUSE_EVENT_MAP[mouseEvent.type];
+    if (name) dispatchEvent(name, target, mouseEvent, detail);
+
+    if (mouseEvent.type === "down") {
+      press = { target, button: mouseEvent.button };
+    } else if (mouseEvent.type === "drag") {
+      press = undefined;
+    } else if (mouseEvent.type === "up") {
+      const clicked = press?.button === mouseEvent.button
+        ? commonAncestor(press.target, target)
+        : undefined;
+      press = undefined;
+      if (clicked) {
+        dispatchEvent("click", clicked, mouseEvent, detail);
+        dispatchLinkClick(renderer, clicked, mouseEvent);
+      }
+    }
+  });
+}
+
+// Terminals that support OSC 8 open hyperlinks themselves. Apps can also react
+// to clicks on them by listening for "linkclick", e.g. as a fallback for
+// terminals that don't. Whether a link was clicked is read back from the last
+// rendered frame, as only there do spans have a position.
+function dispatchLinkClick(renderer: CliRenderer, target: TuiNode, mouseEvent: MouseEventData & NativeEvent): void {
+  const buffer = renderer.currentRenderBuffer;
+  const x = mouseEvent.x ?? -1;
+  const y = mouseEvent.y ?? -1;
+  if (x < 0 || y < 0 || x >= buffer.width || y >= buffer.height) return;
+
+  const linkId = getLinkId(buffer.buffers.attributes[y * buffer.width + x] ?? 0);
+  if (linkId === 0) return;
+  const url = linkUrl(mouseEvent.target, linkId);
+  if (url === undefined) return;
+
+  dispatchEvent("linkclick", target, mouseEvent, (node) => ({
+    ...mouseEventDetail(node, mouseEvent),
+    url,
+  }));
+}
+
+// The URL of the link with `linkId` in the text that was clicked. Most texts
+// hold a single link, which the text itself knows. Otherwise the id is looked
+// up in OpenTUI's native link pool, when this version of it has one.
+function linkUrl(clicked: unknown, linkId: number): string | undefined {
+  if (clicked instanceof TextRenderable) {
+    const chunks = clicked.textNode.gatherWithInheritedStyle();
+    const urls = new Set(chunks.flatMap((chunk) => (chunk.link ? [chunk.link.url] : [])));
+    if (urls.size === 1) return [...urls][0];
+  }
+
+  const lib: object = resolveRenderLib();
+  if (!("linkGetUrl" in lib) || typeof lib.linkGetUrl !== "function") return undefined;
+  try {
+    return String(lib.linkGetUrl(linkId));
+  } catch {
+    return undefined;
+  }
 }
 
 const add_event_listener = (node: TuiNode | TuiTextNode, name: string, handler: EventHandler, _passive: boolean): void => {
@@ -782,43 +1747,53 @@ const add_event_listener = (node: TuiNode | TuiTextNode, name: string, handler:
   const handlers = getHandlers(node);
   handlers.set(name, handler);
 
+  // Layout listeners are called after a frame that moved or resized the node,
+  // see `installLayoutWatch`.
+  if (name === "layout") {
+    LAYOUT_WATCHES.get(node.ctx)?.watched.set(node, "");
+    return;
+  }
+
+  // Likewise focus within listeners, see `installFocusWatch`.
+  if (name === "focuswithin") {
+    FOCUS_WATCHES.get(node.ctx)?.within.set(node, false);
+    return;
+  }
+
   // Ensure focusable for any interactive event.
   if (node.focusable !== undefined) {
     node.focusable = true;
   }
 
-  // Paste events → property setter.
-  if (name === "paste") {
-    node.onPaste = (pasteEvent: PasteEvent) => {
-      const event = new TuiSyntheticEvent("paste", node);
-      event.detail = { text: pasteEvent?.text ?? "" };
-      handler(event);
-    };
+  // Events registered for a custom element, which take precedence over the
+  // built-in mappings.
+  const custom = customEvent(node, name);
+  if (custom) {
+    const wrapper = (data: unknown) => fireEvent(name, node, data, handler);
+    handlers.set("_wrapper_" + name, wrapper as EventHandler);
+    if (custom.kind === "emitter") {
+      node.on?.(custom.target, wrapper);
+    } else {
+      node[custom.target] = wrapper;
+    }
     return;
   }
 
-  // Mouse events → property setters.
-  const mouseProp = MOUSE_PROP_MAP[name];
-  if (mouseProp) {
-    (node as Record<string, unknown>)[mouseProp] = (data: unknown) => fireEvent(name, node, data, handler);
+  // Scroll boxes report every change to their scroll position, whatever
+  // caused it, through their scroll bars. Their viewport resizing changes how
+  // much of the content is visible, so it is reported as well.
+  if (name === "scrollchange" && node instanceof ScrollBoxRenderable) {
+    const wrapper = () => fireEvent(name, node, scroll_detail(node), handler);
+    handlers.set("_wrapper_" + name, wrapper as EventHandler);
+    node.verticalScrollBar.on("change", wrapper);
+    node.horizontalScrollBar.on("change", wrapper);
+    node.viewport.on("resize", wrapper);
     return;
   }
 
-  // Keyboard events → property setters. Once a node is focused (via the
-  // focus_next/focus_previous effects), OpenTUI's internal focus handler
-  // calls the node's onKeyDown callback.
-  const kbProp = KEYBOARD_PROP_MAP[name];
-  if (kbProp) {
-    (node as Record<string, unknown>)[kbProp] = (keyEvent: KeyEventData) => {
-      const event = new TuiSyntheticEvent(name, node);
-      event.detail = {
-        key: keyEvent?.name ?? keyEvent?.key ?? "",
-        ctrl: !!keyEvent?.ctrl,
-        shift: !!keyEvent?.shift,
-        meta: !!keyEvent?.meta,
-      };
-      handler(event);
-    };
+  // Keyboard, paste and mouse events are dispatched by the renderer, which
+  // looks the handler up when the event arrives.
+  if (DISPATCHED_EVENTS.has(eventType(name))) {
     return;
   }
 
@@ -843,22 +1818,40 @@ const remove_event_listener = (node: TuiNode | TuiTextNode, name: string, _handl
   if (node instanceof TuiTextNode) return;
 
   const handlers = getHandlers(node);
+  handlers.delete(name);
 
-  // Paste property setter.
-  if (name === "paste") {
-    node.onPaste = undefined;
+  if (name === "layout") {
+    LAYOUT_WATCHES.get(node.ctx)?.watched.delete(node);
+    return;
   }
 
-  // Mouse property setters.
-  const mouseProp = MOUSE_PROP_MAP[name];
-  if (mouseProp) {
-    (node as Record<string, unknown>)[mouseProp] = null;
+  if (name === "focuswithin") {
+    FOCUS_WATCHES.get(node.ctx)?.within.delete(node);
+    return;
+  }
+
+  if (name === "scrollchange" && node instanceof ScrollBoxRenderable) {
+    const wrapper = handlers.get("_wrapper_" + name);
+    if (wrapper) {
+      node.verticalScrollBar.off("change", wrapper);
+      node.horizontalScrollBar.off("change", wrapper);
+      node.viewport.off("resize", wrapper);
+    }
+    handlers.delete("_wrapper_" + name);
+    return;
   }
 
-  // Keyboard property setters.
-  const kbProp = KEYBOARD_PROP_MAP[name];
-  if (kbProp) {
-    (node as Record<string, unknown>)[kbProp] = null;
+  // Custom element events.
+  const custom = customEvent(node, name);
+  if (custom) {
+    const wrapper = handlers.get("_wrapper_" + name);
+    if (custom.kind === "emitter" && wrapper) {
+      node.off?.(custom.target, wrapper as (data: unknown) => void);
+    } else if (custom.kind === "property") {
+      node[custom.target] = undefined;
+    }
+    handlers.delete("_wrapper_" + name);
+    return;
   }
 
   // Property setter events.
@@ -874,10 +1867,336 @@ const remove_event_listener = (node: TuiNode | TuiTextNode, name: string, _handl
     node.off(emitterName, wrapper as (data: unknown) => void);
     handlers.delete("_wrapper_" + name);
   }
-
-  handlers.delete(name);
 };
 
+// LAYOUT ----------------------------------------------------------------------
+
+// A renderable's laid-out bounds, as reported to layout listeners and
+// `effect.get_layout`. `x` and `y` are relative to the parent element,
+// `screenX` and `screenY` to the terminal's top left corner.
+export interface LayoutDetail {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  screenX: number;
+  screenY: number;
+}
+
+interface LayoutWatch {
+  // Nodes with a layout listener → the bounds they were last reported with.
+  watched: Map<TuiNode, string>;
+  // Callbacks waiting for the next frame to finish.
+  pending: (() => void)[];
+}
+
+const LAYOUT_WATCHES = new WeakMap<object, LayoutWatch>();
+
+export function layout_detail(node: Renderable): LayoutDetail {
+  const parent = parentOf(node as TuiNode);
+  return {
+    x: node.x - (parent?.x ?? 0),
+    y: node.y - (parent?.y ?? 0),
+    width: node.width,
+    height: node.height,
+    screenX: node.x,
+    screenY: node.y,
+  };
+}
+
+// Yoga computes layout while a frame renders, so bounds are only read once the
+// frame is done: layout listeners whose node moved or changed size since they
+// were last called are called again, then callbacks waiting for the frame run.
+function installLayoutWatch(renderer: CliRenderer): void {
+  const watch: LayoutWatch = { watched: new Map(), pending: [] };
+  LAYOUT_WATCHES.set(renderer, watch);
+
+  renderer.addPostProcessFn(() => {
+    for (const [node, reported] of watch.watched) {
+      if (node.isDestroyed) {
+        watch.watched.delete(node);
+        continue;
+      }
+
+      const detail = layout_detail(node);
+      const bounds = Object.values(detail).join(",");
+      if (bounds === reported) continue;
+      watch.watched.set(node, bounds);
+
+      const handler = nodeHandlers.get(node)?.get("layout");
+      if (handler) fireEvent("layout", node, detail, handler);
+    }
+
+    for (const callback of watch.pending.splice(0)) {
+      callback();
+    }
+  });
+}
+
+// The scroll position of a scroll box along with the sizes it scrolls
+// between, as reported to scroll change listeners and
+// `effect.get_scroll_state`.
+export interface ScrollDetail {
+  scrollX: number;
+  scrollY: number;
+  contentWidth: number;
+  contentHeight: number;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+export function scroll_detail(box: ScrollBoxRenderable): ScrollDetail {
+  return {
+    scrollX: box.scrollLeft,
+    scrollY: box.scrollTop,
+    contentWidth: box.scrollWidth,
+    contentHeight: box.scrollHeight,
+    viewportWidth: box.viewport.width,
+    viewportHeight: box.viewport.height,
+  };
+}
+
+// Run `callback` once the next frame has been laid out and rendered.
+export function after_next_frame(renderer: CliRenderer, callback: () => void): void {
+  const watch = LAYOUT_WATCHES.get(renderer);
+  if (!watch) return;
+  watch.pending.push(callback);
+  renderer.requestRender();
+}
+
+// FOCUS -----------------------------------------------------------------------
+
+// A container marked with `attribute.focus_scope` or `attribute.focus_trap`.
+// `restore` is what had focus when the scope was created, focused again when
+// the scope is removed.
+interface FocusScope {
+  name: string;
+  trap: boolean;
+  restore: Renderable | null;
+}
+
+// How a request to focus an element ended, see `request_focus`.
+export type FocusOutcome = "focused" | "not_found" | "not_focusable" | "superseded";
+
+// How long a focus request waits for its element to be rendered before it
+// gives up as not found.
+const FOCUS_WAIT_MS = 1000;
+
+interface PendingFocus {
+  id: string;
+  settle: (outcome: FocusOutcome) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+interface FocusWatch {
+  // Scope containers → their scope, in the order they were created.
+  scopes: Map<TuiNode, FocusScope>;
+  // Nodes with a focus within listener → whether focus was inside them when
+  // they were last called.
+  within: Map<TuiNode, boolean>;
+  // What had focus when the last frame finished, and who to tell when that
+  // changes.
+  focused: Renderable | null;
+  listeners: Set<(focused: Renderable | null) => void>;
+  // A focus request waiting for its element to be rendered.
+  pending: PendingFocus | null;
+}
+
+const FOCUS_WATCHES = new WeakMap<object, FocusWatch>();
+
+// Nodes given a `tab-index`. Nodes without one are ordered as if it were 0.
+const TAB_INDEXES = new WeakMap<object, number>();
+
+function containsNode(ancestor: TuiNode, node: TuiNode | null | undefined): boolean {
+  for (let current = node; current; current = parentOf(current)) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+function setFocusScope(node: TuiNode, name: string, trap: boolean): void {
+  const watch = FOCUS_WATCHES.get(node.ctx);
+  if (!watch) return;
+  const existing = watch.scopes.get(node);
+  if (existing) {
+    existing.name = name;
+    existing.trap = trap;
+    return;
+  }
+  const restore = (node.ctx as CliRenderer).currentFocusedRenderable;
+  watch.scopes.set(node, { name, trap, restore });
+}
+
+// The latest scope to match: the one called `name`, or without a name the
+// innermost trap.
+function findFocusScope(renderer: CliRenderer, name: string | null): TuiNode | null {
+  let found: TuiNode | null = null;
+  for (const [node, scope] of FOCUS_WATCHES.get(renderer)?.scopes ?? []) {
+    if (node.isDestroyed) continue;
+    if (name === null ? scope.trap : scope.name === name) found = node;
+  }
+  return found;
+}
+
+// Overlay layers are skipped: their portal hands their elements over in its
+// own place in the view.
+function collectFocusables(node: Renderable, into: Renderable[]): Renderable[] {
+  if (node instanceof OverlayLayer) return into;
+  if (node.focusable && (TAB_INDEXES.get(node) ?? 0) >= 0) into.push(node);
+  for (const child of node.getChildren()) {
+    collectFocusables(child, into);
+  }
+  return into;
+}
+
+// The focusable elements in the scope called `name`, or outside of one in
+// the innermost trap or else the whole tree, in the order tabbing visits
+// them: positive tab indexes from lowest to highest, then everything else in
+// the order it appears. Elements with a negative tab index are left out.
+export function focus_order(renderer: CliRenderer, name: string | null): Renderable[] {
+  const container = name === null
+    ? findFocusScope(renderer, null) ?? renderer.root
+    : findFocusScope(renderer, name);
+  if (!container) return [];
+  const focusables = collectFocusables(container, []);
+  const rank = (node: Renderable) => {
+    const index = TAB_INDEXES.get(node) ?? 0;
+    return index > 0 ? index : Infinity;
+  };
+  return focusables.sort((a, b) => rank(a) - rank(b));
+}
+
+// The focused element, or null when nothing has focus. A focused element that
+// has been removed still counts as focused to OpenTUI, but not here.
+export function focused_node(renderer: CliRenderer): Renderable | null {
+  const focused = renderer.currentFocusedRenderable;
+  return focused && !focused.isDestroyed ? focused : null;
+}
+
+// Listen for focus moving to another element, or away from every element,
+// returning the function that stops listening.
+export function on_focus_change(
+  renderer: CliRenderer,
+  listener: (focused: Renderable | null) => void,
+): () => void {
+  const watch = FOCUS_WATCHES.get(renderer);
+  if (!watch) return () => {};
+  watch.listeners.add(listener);
+  return () => watch.listeners.delete(listener);
+}
+
+function focusNode(node: Renderable | undefined): FocusOutcome {
+  if (!node) return "not_found";
+  if (!node.focusable) return "not_focusable";
+  node.focus();
+  return "focused";
+}
+
+// Focus the element with `id`, calling `settle` with how that went. With
+// `wait`, a request for an element that isn't rendered yet waits for it to
+// be, for up to `FOCUS_WAIT_MS`. Only the latest request waits: any request
+// settles the one before it as superseded.
+export function request_focus(
+  renderer: CliRenderer,
+  id: string,
+  wait: boolean,
+  settle: (outcome: FocusOutcome) => void,
+): void {
+  const watch = FOCUS_WATCHES.get(renderer);
+  const pending = watch?.pending;
+  if (watch) watch.pending = null;
+  if (pending) {
+    clearTimeout(pending.timeout);
+    pending.settle("superseded");
+  }
+
+  const node = renderer.root.findDescendantById(id);
+  if (!node && wait && watch) {
+    const timeout = setTimeout(() => {
+      watch.pending = null;
+      if (!renderer.isDestroyed) settle("not_found");
+    }, FOCUS_WAIT_MS);
+    watch.pending = { id, settle, timeout };
+    return;
+  }
+  settle(focusNode(node));
+}
+
+// A scope being removed gives focus back to what had it before the scope was
+// created, unless focus has already moved somewhere outside of it.
+function releaseFocusScopes(removed: TuiNode): void {
+  const watch = FOCUS_WATCHES.get(removed.ctx);
+  if (!watch || watch.scopes.size === 0) return;
+
+  let restore: Renderable | null = null;
+  for (const [node, scope] of watch.scopes) {
+    if (!containsNode(removed, node)) continue;
+    watch.scopes.delete(node);
+    const target = scope.restore as TuiNode | null;
+    if (!restore && target && !target.isDestroyed && !containsNode(removed, target)) {
+      restore = target;
+    }
+  }
+  if (!restore) return;
+
+  const focused = (removed.ctx as CliRenderer).currentFocusedRenderable as TuiNode | null;
+  if (!focused || focused.isDestroyed || containsNode(removed, focused)) {
+    queueMicrotask(() => restore.focus());
+  }
+}
+
+// Once a frame is done, a waiting focus request whose element was rendered
+// is carried out, and focus that ended up outside the innermost trap, because
+// the trap just appeared or something outside it was clicked, is moved to the
+// trap's first element. Then focus change listeners are told if focus moved,
+// and focus within listeners if it entered or left their container.
+function installFocusWatch(renderer: CliRenderer): void {
+  const watch: FocusWatch = {
+    scopes: new Map(),
+    within: new Map(),
+    focused: null,
+    listeners: new Set(),
+    pending: null,
+  };
+  FOCUS_WATCHES.set(renderer, watch);
+
+  renderer.addPostProcessFn(() => {
+    const pending = watch.pending;
+    const target = pending && renderer.root.findDescendantById(pending.id);
+    if (pending && target) {
+      watch.pending = null;
+      clearTimeout(pending.timeout);
+      pending.settle(focusNode(target));
+    }
+
+    const trap = findFocusScope(renderer, null);
+    const focused = renderer.currentFocusedRenderable as TuiNode | null;
+    if (trap && !containsNode(trap, focused)) {
+      focus_order(renderer, null)[0]?.focus();
+    }
+
+    const current = focused_node(renderer) as TuiNode | null;
+    if (current !== watch.focused) {
+      watch.focused = current;
+      for (const listener of watch.listeners) listener(current);
+    }
+
+    for (const [node, within] of watch.within) {
+      if (node.isDestroyed) {
+        watch.within.delete(node);
+        continue;
+      }
+
+      const inside = containsNode(node, current);
+      if (inside === within) continue;
+      watch.within.set(node, inside);
+
+      const handler = nodeHandlers.get(node)?.get("focuswithin");
+      if (handler) fireEvent("focuswithin", node, inside, handler);
+    }
+  });
+}
+
 // SCHEDULING ------------------------------------------------------------------
 
 const schedule_render = (callback: () => void): (() => void) => {
@@ -1,30 +1,59 @@
 // IMPORTS ---------------------------------------------------------------------
 
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { ScrollBoxRenderable, RGBA } from "@opentui/core";
-import type { Renderable, CursorStyle } from "@opentui/core";
-import { KeyEvent } from "./effect.mjs";
-import { get_renderer } from "../opentui.ffi.ts";
+import type { CliRenderer, Renderable, CursorStyle } from "@opentui/core";
+import {
+  CtrlC,
+  Edited,
+  KeyEvent,
+  Layout,
+  NotFocusable,
+  NotFound,
+  ScrollState,
+  Signal,
+  Superseded,
+} from "./effect.mjs";
+import { Result$Ok, Result$Error } from "../../../gleam.mjs";
+import type { List } from "../../../gleam.mjs";
+import {
+  after_next_frame,
+  current_renderer,
+  focus_order,
+  focused_node,
+  get_renderer,
+  hand_off,
+  is_headless,
+  keyEventDetail,
+  layout_detail,
+  live_renderable_count,
+  on_destroyed,
+  on_diagnostic,
+  on_exit_request,
+  on_focus_change,
+  request_focus,
+  scroll_detail,
+  shut_down,
+  within,
+} from "../opentui.ffi.ts";
+import type { ExitReason, FocusOutcome, KeyEventData } from "../opentui.ffi.ts";
 
 // TYPES -----------------------------------------------------------------------
 
-interface KeyEventData {
-  name?: string;
-  ctrl?: boolean;
-  shift?: boolean;
-  meta?: boolean;
-}
-
 type Dispatch<Msg> = (msg: Msg) => void;
 
+// The root element Lustre passes to `before_paint` effects.
+type Root = unknown;
+
 // HELPERS ---------------------------------------------------------------------
 
-function collectFocusables(node: Renderable): Renderable[] {
-  const result: Renderable[] = [];
-  if (node.focusable) result.push(node);
-  for (const child of node.getChildren()) {
-    result.push(...collectFocusables(child));
-  }
-  return result;
+// `dispatch` for messages sent on the app's behalf, such as from a listener or
+// once a frame has rendered, so effects that find their renderer without the
+// root still know which app those messages came from.
+function dispatchWithin<Msg>(renderer: CliRenderer, dispatch: Dispatch<Msg>): Dispatch<Msg> {
+  return (msg) => within(renderer, () => dispatch(msg));
 }
 
 function findDescendantById(root: Renderable, id: string): Renderable | null {
@@ -36,58 +65,190 @@ function findDescendantById(root: Renderable, id: string): Renderable | null {
   return null;
 }
 
-// FOCUS EFFECTS ---------------------------------------------------------------
+// SUBSCRIPTIONS ---------------------------------------------------------------
+
+// What a subscription listens to. Subscriptions of different kinds never
+// replace each other, even when the app gives them the same id.
+type SubscriptionKind = "keyboard" | "focus" | "terminal-resize" | "diagnostics" | "exit";
+
+// Active subscriptions per renderer, keyed by the id the app subscribed with
+// and then by kind. Each entry is the function that detaches the
+// subscription's listener.
+const subscriptions = new WeakMap<CliRenderer, Map<string, Map<SubscriptionKind, () => void>>>();
+
+function getSubscriptions(
+  renderer: CliRenderer,
+  id: string,
+): Map<SubscriptionKind, () => void> {
+  let byId = subscriptions.get(renderer);
+  if (!byId) {
+    byId = new Map();
+    subscriptions.set(renderer, byId);
+  }
+  let subs = byId.get(id);
+  if (!subs) {
+    subs = new Map();
+    byId.set(id, subs);
+  }
+  return subs;
+}
+
+// Register a subscription of `kind` under `id`, replacing any previous one of
+// the same kind and id so repeated subscribes never stack listeners.
+function subscribe(
+  renderer: CliRenderer,
+  kind: SubscriptionKind,
+  id: string,
+  cancel: () => void,
+): void {
+  const subs = getSubscriptions(renderer, id);
+  subs.get(kind)?.();
+  subs.set(kind, cancel);
+}
 
 export function subscribe_keyboard<Msg>(
+  id: string,
   handler: (keyEvent: KeyEvent) => Msg,
   dispatch: Dispatch<Msg>
 ): void {
-  const renderer = get_renderer();
-  renderer.keyInput.on("keypress", (keyEvent: KeyEventData) => {
+  const renderer = current_renderer();
+  const send = dispatchWithin(renderer, dispatch);
+  const listener = (keyEvent: KeyEventData) => {
+    const detail = keyEventDetail(keyEvent);
     const ke = new KeyEvent(
-      keyEvent.name ?? "",
-      !!keyEvent.ctrl,
-      !!keyEvent.shift,
-      !!keyEvent.meta,
+      detail.key,
+      detail.ctrl,
+      detail.shift,
+      detail.meta,
+      detail.repeated,
+      detail.released,
+      detail.option,
+      detail.super,
+      detail.sequence,
+      detail.printable,
     );
-    dispatch(handler(ke));
+    send(handler(ke));
+  };
+  // Releases are only emitted when the Kitty keyboard protocol reports event
+  // types, so without it this subscription sees presses alone.
+  renderer.keyInput.on("keypress", listener);
+  renderer.keyInput.on("keyrelease", listener);
+  subscribe(renderer, "keyboard", id, () => {
+    renderer.keyInput.off("keypress", listener);
+    renderer.keyInput.off("keyrelease", listener);
   });
 }
 
-export function focus_next(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
-  const focusables = collectFocusables(renderer.root);
+export function unsubscribe(id: string, _dispatch: Dispatch<unknown>): void {
+  const renderer = current_renderer();
+  const byId = subscriptions.get(renderer);
+  for (const cancel of byId?.get(id)?.values() ?? []) cancel();
+  byId?.delete(id);
+}
+
+// FOCUS EFFECTS ---------------------------------------------------------------
+
+// Move focus `step` places through the tab order of the scope called
+// `scope`, or of the innermost trap or the whole tree when it is null. Focus
+// coming from outside the scope lands on its first or last element.
+function moveFocus(root: Root, scope: string | null, step: 1 | -1): void {
+  const renderer = get_renderer(root);
+  const focusables = focus_order(renderer, scope);
   if (focusables.length === 0) return;
   const idx = focusables.findIndex((n) => n.focused);
-  const next = (idx + 1) % focusables.length;
+  const next = idx === -1
+    ? (step === 1 ? 0 : focusables.length - 1)
+    : (idx + step + focusables.length) % focusables.length;
   focusables[next]!.focus?.();
 }
 
-export function focus_previous(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
-  const focusables = collectFocusables(renderer.root);
-  if (focusables.length === 0) return;
-  const idx = focusables.findIndex((n) => n.focused);
-  const prev = idx <= 0 ? focusables.length - 1 : idx - 1;
-  focusables[prev]!.focus?.();
+export function focus_next(root: Root, _dispatch: Dispatch<unknown>): void {
+  moveFocus(root, null, 1);
+}
+
+export function focus_previous(root: Root, _dispatch: Dispatch<unknown>): void {
+  moveFocus(root, null, -1);
+}
+
+export function focus_next_in(root: Root, scope: string, _dispatch: Dispatch<unknown>): void {
+  moveFocus(root, scope, 1);
+}
+
+export function focus_previous_in(root: Root, scope: string, _dispatch: Dispatch<unknown>): void {
+  moveFocus(root, scope, -1);
+}
+
+export function focus_first_in(root: Root, scope: string, _dispatch: Dispatch<unknown>): void {
+  const renderer = get_renderer(root);
+  focus_order(renderer, scope)[0]?.focus?.();
+}
+
+export function focus(root: Root, id: string, _dispatch: Dispatch<unknown>): void {
+  request_focus(get_renderer(root), id, false, () => {});
+}
+
+const FOCUS_ERRORS: Record<Exclude<FocusOutcome, "focused">, () => unknown> = {
+  not_found: () => new NotFound(),
+  not_focusable: () => new NotFocusable(),
+  superseded: () => new Superseded(),
+};
+
+export function try_focus<Msg>(
+  root: Root,
+  id: string,
+  wait: boolean,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = get_renderer(root);
+  const send = dispatchWithin(renderer, dispatch);
+  request_focus(renderer, id, wait, (outcome) => {
+    const result = outcome === "focused"
+      ? Result$Ok(undefined)
+      : Result$Error(FOCUS_ERRORS[outcome]());
+    send(handler(result));
+  });
 }
 
-export function focus(id: string, _dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
-  const focusables = collectFocusables(renderer.root);
-  const target = focusables.find((n) => n.id === id);
-  if (target) target.focus?.();
+const focusedId = (node: Renderable | null): unknown =>
+  node ? Result$Ok(node.id) : Result$Error(undefined);
+
+export function get_focused<Msg>(
+  root: Root,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = get_renderer(root);
+  dispatchWithin(renderer, dispatch)(handler(focusedId(focused_node(renderer))));
+}
+
+export function subscribe_focus<Msg>(
+  root: Root,
+  id: string,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = get_renderer(root);
+  const send = dispatchWithin(renderer, dispatch);
+  const cancel = on_focus_change(renderer, (node) => send(handler(focusedId(node))));
+  subscribe(renderer, "focus", id, cancel);
 }
 
 // TERMINAL CONTROL EFFECTS ----------------------------------------------------
 
-export function set_terminal_title(title: string, _dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+export function set_terminal_title(
+  title: string,
+  _dispatch: Dispatch<unknown>
+): void {
+  const renderer = current_renderer();
   renderer.setTerminalTitle(title);
 }
 
-export function set_background_color(color: string, _dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+export function set_background_color(
+  color: string,
+  _dispatch: Dispatch<unknown>
+): void {
+  const renderer = current_renderer();
   renderer.setBackgroundColor(color);
 }
 
@@ -97,7 +258,7 @@ export function set_cursor_position(
   visible: boolean,
   _dispatch: Dispatch<unknown>
 ): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.setCursorPosition(x, y, visible);
 }
 
@@ -106,12 +267,15 @@ export function set_cursor_style(
   blinking: boolean,
   _dispatch: Dispatch<unknown>
 ): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.setCursorStyle(style, blinking);
 }
 
-export function set_cursor_color(color: string, _dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+export function set_cursor_color(
+  color: string,
+  _dispatch: Dispatch<unknown>
+): void {
+  const renderer = current_renderer();
   renderer.setCursorColor(RGBA.fromHex(color));
 }
 
@@ -119,86 +283,255 @@ export function get_terminal_dimensions<Msg>(
   handler: (width: number, height: number) => Msg,
   dispatch: Dispatch<Msg>
 ): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   dispatch(handler(renderer.width, renderer.height));
 }
 
 export function toggle_debug_overlay(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.toggleDebugOverlay();
 }
 
+export function get_live_renderable_count<Msg>(
+  root: Root,
+  handler: (count: number) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = get_renderer(root);
+  const send = dispatchWithin(renderer, dispatch);
+  send(handler(live_renderable_count(renderer)));
+}
+
+export function subscribe_diagnostics<Msg>(
+  id: string,
+  handler: (message: string) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = current_renderer();
+  const send = dispatchWithin(renderer, dispatch);
+  const cancel = on_diagnostic(renderer, (message) => send(handler(message)));
+  subscribe(renderer, "diagnostics", id, cancel);
+}
+
 export function subscribe_terminal_resize<Msg>(
+  id: string,
   handler: (width: number, height: number) => Msg,
   dispatch: Dispatch<Msg>
 ): void {
-  const renderer = get_renderer();
-  renderer.on("resize", (width: number, height: number) => {
-    dispatch(handler(width, height));
-  });
+  const renderer = current_renderer();
+  const send = dispatchWithin(renderer, dispatch);
+  const listener = (width: number, height: number) => {
+    send(handler(width, height));
+  };
+  renderer.on("resize", listener);
+  subscribe(renderer, "terminal-resize", id, () => renderer.off("resize", listener));
 }
 
 // CLIPBOARD EFFECTS -----------------------------------------------------------
 
-export function copy_to_clipboard(text: string, _dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+export function copy_to_clipboard(
+  text: string,
+  _dispatch: Dispatch<unknown>
+): void {
+  const renderer = current_renderer();
   renderer.copyToClipboardOSC52(text);
 }
 
 export function clear_clipboard(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.clearClipboardOSC52();
 }
 
 // SELECTION EFFECTS -----------------------------------------------------------
 
 export function get_selection_raw(): string {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   const selection = renderer.getSelection();
   return selection?.getSelectedText() ?? "";
 }
 
 export function clear_selection(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.clearSelection();
 }
 
 // LIFECYCLE EFFECTS -----------------------------------------------------------
 
 export function pause(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.pause();
 }
 
 export function suspend(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.suspend();
 }
 
 export function resume(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.resume();
 }
 
 export function destroy(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.destroy();
 }
 
 export function stop(_dispatch: Dispatch<unknown>): void {
-  const renderer = get_renderer();
+  const renderer = current_renderer();
   renderer.stop();
 }
 
+// EXIT EFFECTS ----------------------------------------------------------------
+
+export function quit(code: number, _dispatch: Dispatch<unknown>): void {
+  shut_down(current_renderer(), code);
+}
+
+const exitRequest = (reason: ExitReason): unknown =>
+  reason === "ctrl_c" ? new CtrlC() : new Signal(reason);
+
+export function subscribe_before_exit<Msg>(
+  id: string,
+  handler: (request: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = current_renderer();
+  const send = dispatchWithin(renderer, dispatch);
+  const cancel = on_exit_request(renderer, (reason) => send(handler(exitRequest(reason))));
+  subscribe(renderer, "exit", id, cancel);
+}
+
+// EXTERNAL PROGRAMS -----------------------------------------------------------
+
+const CLEAR_SCREEN = "\x1b[H\x1b[2J";
+
+// Suspend the renderer, run `argv` on the terminal the renderer was using and
+// wait for it to exit, with the app ignoring the interrupts meant for the
+// program. The renderer comes back even if the program couldn't be started;
+// `resume` restores raw mode, mouse tracking and the alternate screen but
+// leaves whatever the program drew on screen, so the screen is cleared and the
+// next frame redrawn in full. Renderers other than headless ones draw to the
+// process' stdout, which the program shared.
+async function runWithTerminal(
+  renderer: CliRenderer,
+  argv: string[]
+): Promise<number> {
+  renderer.suspend();
+  try {
+    return await hand_off(renderer, () => {
+      const child = Bun.spawn(argv, {
+        stdin: "inherit",
+        stdout: "inherit",
+        stderr: "inherit",
+      });
+      return child.exited;
+    });
+  } finally {
+    renderer.resume();
+    if (!is_headless(renderer)) process.stdout.write(CLEAR_SCREEN);
+    renderer.requestRender();
+  }
+}
+
+// The user's editor, as `$VISUAL` or `$EDITOR` would be run by a shell.
+function editorCommand(): string[] {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  return editor.trim().split(/\s+/);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function run_program<Msg>(
+  command: string,
+  args: List<string>,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = current_renderer();
+  const send = dispatchWithin(renderer, dispatch);
+  runWithTerminal(renderer, [command, ...args.toArray()]).then(
+    (code) => send(handler(Result$Ok(code))),
+    (error) => send(handler(Result$Error(errorMessage(error))))
+  );
+}
+
+// Write `contents` to a fresh temporary file, pass its path to the program as
+// its last argument and read the file back once the program has exited. The
+// temporary directory is removed whatever happens. An empty `command` runs the
+// user's editor.
+export function edit_file<Msg>(
+  command: string,
+  args: List<string>,
+  contents: string,
+  extension: string,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = current_renderer();
+  const send = dispatchWithin(renderer, dispatch);
+  const argv = command === "" ? editorCommand() : [command];
+  const suffix = extension.replace(/^\./, "");
+  const name = suffix === "" ? "edit" : `edit.${suffix}`;
+
+  (async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lustre-opentui-"));
+    try {
+      const path = join(dir, name);
+      await writeFile(path, contents);
+      const argvWithFile = [...argv, ...args.toArray(), path];
+      const code = await runWithTerminal(renderer, argvWithFile);
+      return new Edited(code, await readFile(path, "utf8"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  })().then(
+    (edited) => send(handler(Result$Ok(edited))),
+    (error) => send(handler(Result$Error(errorMessage(error))))
+  );
+}
+
+// LAYOUT EFFECTS --------------------------------------------------------------
+
+export function get_layout<Msg>(
+  root: Root,
+  id: string,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = get_renderer(root);
+  const send = dispatchWithin(renderer, dispatch);
+  after_next_frame(renderer, () => {
+    const node = findDescendantById(renderer.root, id);
+    if (!node) {
+      send(handler(Result$Error(undefined)));
+      return;
+    }
+
+    const layout = layout_detail(node);
+    send(handler(Result$Ok(new Layout(
+      layout.x,
+      layout.y,
+      layout.width,
+      layout.height,
+      layout.screenX,
+      layout.screenY,
+    ))));
+  });
+}
+
 // SCROLLING EFFECTS -----------------------------------------------------------
 
 export function scroll_by(
+  root: Root,
   element_id: string,
   delta_x: number,
   delta_y: number,
   _dispatch: Dispatch<unknown>
 ): void {
-  const renderer = get_renderer();
+  const renderer = get_renderer(root);
   const node = findDescendantById(renderer.root, element_id);
   if (node instanceof ScrollBoxRenderable) {
     node.scrollBy({ x: delta_x, y: delta_y });
@@ -206,24 +539,148 @@ export function scroll_by(
 }
 
 export function scroll_to(
+  root: Root,
   element_id: string,
   x: number,
   y: number,
   _dispatch: Dispatch<unknown>
 ): void {
-  const renderer = get_renderer();
+  const renderer = get_renderer(root);
   const node = findDescendantById(renderer.root, element_id);
   if (node instanceof ScrollBoxRenderable) {
     node.scrollTo({ x, y });
   }
 }
 
+export function get_scroll_state<Msg>(
+  root: Root,
+  id: string,
+  handler: (result: unknown) => Msg,
+  dispatch: Dispatch<Msg>
+): void {
+  const renderer = get_renderer(root);
+  const send = dispatchWithin(renderer, dispatch);
+  after_next_frame(renderer, () => {
+    const node = findDescendantById(renderer.root, id);
+    if (!(node instanceof ScrollBoxRenderable)) {
+      send(handler(Result$Error(undefined)));
+      return;
+    }
+
+    const scroll = scroll_detail(node);
+    send(handler(Result$Ok(new ScrollState(
+      scroll.scrollX,
+      scroll.scrollY,
+      scroll.contentWidth,
+      scroll.contentHeight,
+      scroll.viewportWidth,
+      scroll.viewportHeight,
+    ))));
+  });
+}
+
+type ScrollAlignment = "start" | "center" | "end" | "nearest";
+
+interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+// Running smooth scrolls, so that a new scroll of the same box cancels the one
+// still in progress.
+const scrollAnimations = new WeakMap<ScrollBoxRenderable, () => void>();
+
+// Where `node` sits inside `ancestor` according to the layout Yoga just
+// computed, including the scroll offset of any scroll box in between.
+function offsetWithin(node: Renderable, ancestor: Renderable): ScrollPosition {
+  const offset = { x: 0, y: 0 };
+  for (let current: Renderable | null = node; current && current !== ancestor; current = current.parent) {
+    const layout = current.getLayoutNode().getComputedLayout();
+    offset.x += layout.left + current.translateX;
+    offset.y += layout.top + current.translateY;
+  }
+  return offset;
+}
+
+// The scroll position along one axis that lines an element starting at
+// `start` and `size` cells long up with a viewport of `viewport` cells.
+function alignedScroll(
+  alignment: ScrollAlignment,
+  start: number,
+  size: number,
+  scroll: number,
+  viewport: number,
+): number {
+  switch (alignment) {
+    case "start":
+      return start;
+    case "center":
+      return start + Math.floor((size - viewport) / 2);
+    case "end":
+      return start + size - viewport;
+    case "nearest":
+      if (start < scroll || size > viewport) return start;
+      if (start + size > scroll + viewport) return start + size - viewport;
+      return scroll;
+  }
+}
+
+// Move `box` from `from` to `to` over `duration` milliseconds, easing out.
+// The animation stops early if the box or its renderer is destroyed.
+function animateScroll(
+  renderer: CliRenderer,
+  box: ScrollBoxRenderable,
+  from: ScrollPosition,
+  to: ScrollPosition,
+  duration: number,
+): void {
+  scrollAnimations.get(box)?.();
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => {
+    clearTimeout(timer);
+    scrollAnimations.delete(box);
+    forgetBox();
+    renderer.off("destroy", stop);
+  };
+  const forgetBox = on_destroyed(box, stop);
+  renderer.on("destroy", stop);
+
+  const step = () => {
+    if (box.isDestroyed || renderer.isDestroyed) return stop();
+    const progress = Math.min(1, (Date.now() - started) / duration);
+    const eased = 1 - (1 - progress) ** 3;
+    box.scrollTo({
+      x: Math.round(from.x + (to.x - from.x) * eased),
+      y: Math.round(from.y + (to.y - from.y) * eased),
+    });
+    renderer.requestRender();
+
+    if (progress < 1) {
+      timer = setTimeout(step, 16);
+    } else {
+      stop();
+    }
+  };
+
+  scrollAnimations.set(box, stop);
+  step();
+}
+
+// Scroll `child` into view inside the scroll box `container_id`. Scroll boxes
+// nested between the two are scrolled too, innermost first, so the child ends
+// up visible in each of them.
 export function scroll_into_view(
+  root: Root,
   container_id: string,
   child_id: string,
+  horizontal: ScrollAlignment,
+  vertical: ScrollAlignment,
+  duration: number,
   _dispatch: Dispatch<unknown>
 ): void {
-  const renderer = get_renderer();
+  const renderer = get_renderer(root);
   const container = findDescendantById(renderer.root, container_id);
   const child = findDescendantById(renderer.root, child_id);
 
@@ -231,35 +688,39 @@ export function scroll_into_view(
     return;
   }
 
-  // Get the container's content area (where children are placed)
-  const content = container.content;
-  if (!content) {
-    return;
+  const boxes: ScrollBoxRenderable[] = [];
+  for (let current = child.parent; current !== container; current = current.parent) {
+    if (!current) return;
+    if (current instanceof ScrollBoxRenderable) boxes.push(current);
   }
-
-  // Find the child's index within the content's children to calculate offset
-  const children = content.getChildren?.() ?? [];
-  let childOffsetY = 0;
-  for (const c of children) {
-    if (c.id === child_id || c === child) {
-      break;
-    }
-    childOffsetY += c.height ?? 1;
+  boxes.push(container);
+
+  // Effects run before the frame that lays the view out, so bring the layout
+  // up to date for the elements the view just added or changed. Updating the
+  // content and viewport sizes also refreshes how far each box can scroll.
+  renderer.root.calculateLayout();
+  for (const box of boxes) {
+    scrollAnimations.get(box)?.();
+    box.viewport.updateFromLayout();
+    box.content.updateFromLayout();
   }
 
-  const childHeight = child.height ?? 1;
-
-  // Get the container's scroll state
-  const scrollTop = container.scrollTop ?? 0;
-  const viewportHeight = container.viewport?.height ?? container.height ?? 10;
+  const size = child.getLayoutNode().getComputedLayout();
+  const starts = boxes.map((box) => ({ x: box.scrollLeft, y: box.scrollTop }));
+  const targets = boxes.map((box) => {
+    const offset = offsetWithin(child, box.content);
+    const viewport = box.viewport.getLayoutNode().getComputedLayout();
+    box.scrollTo({
+      x: alignedScroll(horizontal, offset.x, size.width, box.scrollLeft, viewport.width),
+      y: alignedScroll(vertical, offset.y, size.height, box.scrollTop, viewport.height),
+    });
+    return { x: box.scrollLeft, y: box.scrollTop };
+  });
 
-  // Check if child is above the visible area
-  if (childOffsetY < scrollTop) {
-    container.scrollTo({ x: 0, y: childOffsetY });
-  }
-  // Check if child is below the visible area
-  else if (childOffsetY + childHeight > scrollTop + viewportHeight) {
-    container.scrollTo({ x: 0, y: childOffsetY + childHeight - viewportHeight });
+  if (duration > 0) {
+    boxes.forEach((box, i) => {
+      box.scrollTo(starts[i]!);
+      animateScroll(renderer, box, starts[i]!, targets[i]!, duration);
+    });
   }
-  // Otherwise, child is already visible - don't scroll
 }
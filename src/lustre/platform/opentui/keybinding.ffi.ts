@@ -0,0 +1,9 @@
+// TIME ------------------------------------------------------------------------
+
+export function now(): number {
+  return Date.now();
+}
+
+export function set_timeout(delay: number, callback: () => void): void {
+  setTimeout(callback, delay);
+}
@@ -0,0 +1,172 @@
+// The portal element: children shown in an overlay above the rest of the
+// view, optionally next to an anchor element. The reconciler creates it for
+// `element.portal`.
+
+// IMPORTS ---------------------------------------------------------------------
+
+import { BoxRenderable } from "@opentui/core";
+import type {
+  BoxOptions,
+  CliRenderer,
+  OptimizedBuffer,
+  Renderable,
+  RenderContext,
+} from "@opentui/core";
+
+// TYPES -----------------------------------------------------------------------
+
+// Where an anchored portal puts its children next to the anchor element.
+interface PortalAnchor {
+  id: string;
+  placement: "below" | "above" | "left" | "right";
+}
+
+// CONSTANTS -------------------------------------------------------------------
+
+// Overlay layers are children of the root with this z-index plus their
+// portal's stack order, so they sit above the main view.
+const OVERLAY_Z_INDEX = 1000;
+
+// PORTALS ---------------------------------------------------------------------
+
+// The full-screen layer a portal's children are shown in, and the box in it
+// that holds them. Without a backdrop they draw nothing and stay out of the
+// hit grid, so clicks around the portal's children still reach the view
+// below.
+export class OverlayLayer extends BoxRenderable {
+  blocking = false;
+
+  override render(buffer: OptimizedBuffer, deltaTime: number): void {
+    if (this.blocking) {
+      super.render(buffer, deltaTime);
+    } else {
+      this.markClean();
+    }
+  }
+}
+
+// A portal stays where the view put it as an empty, absolutely positioned
+// box, but its children live in an overlay layer at the root. Like a scroll
+// box forwarding to its content, it hands the reconciler's add, insertBefore,
+// remove and getChildren over to the layer's content box, so the tree is kept
+// in sync without any special casing. Its children's `_parent` is still the
+// portal, so events bubble and focus scopes work as if they were inside it.
+export class PortalRenderable extends BoxRenderable {
+  private layer: OverlayLayer;
+  private content: OverlayLayer;
+  private _anchor: PortalAnchor | null = null;
+  // The content's last placement next to the anchor, to only move it, and
+  // render again, when that changes.
+  private placed = "";
+
+  constructor(ctx: RenderContext, options: BoxOptions) {
+    super(ctx, { ...options, position: "absolute", width: 0, height: 0 });
+
+    this.layer = new OverlayLayer(ctx, {
+      position: "absolute",
+      left: 0,
+      top: 0,
+      width: "100%",
+      height: "100%",
+      zIndex: OVERLAY_Z_INDEX,
+    });
+    this.content = new OverlayLayer(ctx, {
+      position: "absolute",
+      left: 0,
+      top: 0,
+      width: "100%",
+      height: "100%",
+    });
+    this.layer.add(this.content);
+    this.layer.onLifecyclePass = () => this.place();
+    this.layer.onMouseDown = (event) => {
+      const target = event.target;
+      if (target === this.layer || target === this.content) {
+        this.emit("backdropClicked");
+      }
+    };
+    (ctx as CliRenderer).root.add(this.layer);
+  }
+
+  override add(obj: unknown, index?: number): number {
+    return this.content.add(obj, index);
+  }
+
+  override insertBefore(obj: unknown, anchor?: unknown): number {
+    return this.content.insertBefore(obj, anchor);
+  }
+
+  override remove(id: string): void {
+    this.content.remove(id);
+  }
+
+  override getChildren(): Renderable[] {
+    return this.content.getChildren();
+  }
+
+  set backdrop(value: string | undefined) {
+    this.layer.blocking = !!value;
+    this.content.blocking = !!value || this._anchor !== null;
+    this.layer.backgroundColor = value || "transparent";
+  }
+
+  set stackOrder(value: number | undefined) {
+    this.layer.zIndex = OVERLAY_Z_INDEX + (value ?? 0);
+  }
+
+  set anchor(value: PortalAnchor | null | undefined) {
+    this._anchor = value ?? null;
+    this.placed = "";
+    // Anchored content only covers its children, so it can take clicks.
+    this.content.blocking = this.layer.blocking || this._anchor !== null;
+    this.content.visible = true;
+    this.content.left = 0;
+    this.content.top = 0;
+    this.content.width = this._anchor ? "auto" : "100%";
+    this.content.height = this._anchor ? "auto" : "100%";
+    this.requestRender();
+  }
+
+  protected override destroySelf(): void {
+    this.layer.destroyRecursively();
+    super.destroySelf();
+  }
+
+  // Runs before each frame is laid out. The anchor's position and the
+  // content's size come from the frame before, so a change to either takes
+  // one more frame to settle.
+  private place(): void {
+    const anchor = this._anchor;
+    if (!anchor) return;
+
+    const target = (this.ctx as CliRenderer).root.findDescendantById(anchor.id);
+    this.content.visible = !!target;
+    if (!target) return;
+
+    const { width, height } = this.content;
+    let left = target.x;
+    let top = target.y + target.height;
+    switch (anchor.placement) {
+      case "above":
+        top = target.y - height;
+        break;
+      case "left":
+        left = target.x - width;
+        top = target.y;
+        break;
+      case "right":
+        left = target.x + target.width;
+        top = target.y;
+        break;
+    }
+
+    left = Math.max(0, Math.min(left, this.ctx.width - width));
+    top = Math.max(0, Math.min(top, this.ctx.height - height));
+    const placed = `${left},${top},${width},${height}`;
+    if (placed === this.placed) return;
+    this.placed = placed;
+    this.content.left = left;
+    this.content.top = top;
+    this.requestRender();
+  }
+}
@@ -0,0 +1,7 @@
+// The registry itself lives with the reconciler, which consults it whenever it
+// creates a node or maps an attribute or event.
+export {
+  register_attribute,
+  register_element,
+  register_event,
+} from "../opentui.ffi.ts";
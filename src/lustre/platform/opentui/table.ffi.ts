@@ -0,0 +1,395 @@
+// The table element: a header and rows of plain text cells, drawn straight
+// into the buffer. The reconciler creates it for `element.table`.
+
+// IMPORTS ---------------------------------------------------------------------
+
+import { Renderable, TextAttributes, parseColor } from "@opentui/core";
+import type {
+  KeyEvent,
+  MouseEvent,
+  OptimizedBuffer,
+  RenderContext,
+  RenderableOptions,
+  RGBA,
+} from "@opentui/core";
+
+// TYPES -----------------------------------------------------------------------
+
+// One column of a table, as encoded by `attribute.columns`. `size` is the
+// column's width for "fixed" columns and its share of the leftover width for
+// "flex" ones; "auto" columns fit their widest cell.
+interface TableColumn {
+  title: string;
+  sizing: "fixed" | "flex" | "auto";
+  size: number;
+  align: "left" | "center" | "right";
+  truncate: boolean;
+  sortable: boolean;
+}
+
+interface TableSort {
+  column: number;
+  descending: boolean;
+}
+
+// HELPERS ---------------------------------------------------------------------
+
+// How many terminal cells `text` takes up, measured the way OpenTUI measures
+// text, so wide characters such as CJK and most emoji count as two.
+const textWidth = (text: string): number => Bun.stringWidth(text);
+
+const graphemes = new Intl.Segmenter();
+
+// The longest start of `text` that fits in `width` cells, never splitting a
+// character cluster or leaving half of a wide character.
+function cutToWidth(text: string, width: number): string {
+  let cut = "";
+  let used = 0;
+  for (const { segment } of graphemes.segment(text)) {
+    const segmentWidth = textWidth(segment);
+    if (used + segmentWidth > width) break;
+    cut += segment;
+    used += segmentWidth;
+  }
+  return cut;
+}
+
+// Fit `text` into `width` cells: cut it, with an ellipsis when the column
+// truncates, and pad it to the column's alignment.
+function fitCell(text: string, width: number, column: TableColumn): string {
+  if (textWidth(text) > width) {
+    const cut = column.truncate && width > 1
+      ? cutToWidth(text, width - 1) + "…"
+      : cutToWidth(text, width);
+    return cut + " ".repeat(width - textWidth(cut));
+  }
+
+  const space = width - textWidth(text);
+  switch (column.align) {
+    case "right":
+      return " ".repeat(space) + text;
+    case "center": {
+      const left = Math.floor(space / 2);
+      return " ".repeat(left) + text + " ".repeat(space - left);
+    }
+    default:
+      return text + " ".repeat(space);
+  }
+}
+
+// TABLE -----------------------------------------------------------------------
+
+// A table drawn straight into the buffer: a header row and one line per row,
+// with a cursor moved by the keyboard and the mouse. The rows scroll under
+// the header, which stays put unless `stickyHeader` is off. Sorting is left
+// to the app: clicking a sortable header only emits `sortChanged`, and the
+// app passes the sorted rows and the new `sort` back in.
+export class TableRenderable extends Renderable {
+  private _columns: TableColumn[] = [];
+  private _rows: string[][] = [];
+  private _selectedIndex = 0;
+  private _sort: TableSort | null = null;
+  private _stickyHeader = true;
+  private _multiSelect = false;
+  private _selectedRows = new Set<number>();
+  private _textColor: RGBA = parseColor("#FFFFFF");
+  private _backgroundColor: RGBA = parseColor("transparent");
+  private _headerColor: RGBA = parseColor("#FFFFFF");
+  private _selectedTextColor: RGBA = parseColor("#FFFFFF");
+  private _selectedBackgroundColor: RGBA = parseColor("#334455");
+  private scrollOffset = 0;
+  // Column widths worked out for the current width, as auto columns look at
+  // every row.
+  private widths: number[] | null = null;
+
+  constructor(ctx: RenderContext, options: RenderableOptions<TableRenderable>) {
+    super(ctx, options);
+    this._focusable = true;
+  }
+
+  get columns(): TableColumn[] {
+    return this._columns;
+  }
+
+  set columns(value: TableColumn[]) {
+    this._columns = value ?? [];
+    this.widths = null;
+    this.requestRender();
+  }
+
+  get rows(): string[][] {
+    return this._rows;
+  }
+
+  set rows(value: string[][]) {
+    this._rows = value ?? [];
+    this.widths = null;
+    this.moveCursor(this._selectedIndex);
+  }
+
+  get selectedIndex(): number {
+    return this._selectedIndex;
+  }
+
+  set selectedIndex(value: number) {
+    this.moveCursor(value);
+  }
+
+  set sort(value: TableSort | null) {
+    this._sort = value;
+    this.widths = null;
+    this.requestRender();
+  }
+
+  set stickyHeader(value: boolean) {
+    this._stickyHeader = value;
+    this.moveCursor(this._selectedIndex);
+  }
+
+  set multiSelect(value: boolean) {
+    this._multiSelect = value;
+    this.widths = null;
+    this.requestRender();
+  }
+
+  set selectedRows(value: number[]) {
+    this._selectedRows = new Set(value ?? []);
+    this.requestRender();
+  }
+
+  set textColor(value: string) {
+    this._textColor = parseColor(value);
+    this.requestRender();
+  }
+
+  set backgroundColor(value: string) {
+    this._backgroundColor = parseColor(value);
+    this.requestRender();
+  }
+
+  set headerColor(value: string) {
+    this._headerColor = parseColor(value);
+    this.requestRender();
+  }
+
+  set selectedTextColor(value: string) {
+    this._selectedTextColor = parseColor(value);
+    this.requestRender();
+  }
+
+  set selectedBackgroundColor(value: string) {
+    this._selectedBackgroundColor = parseColor(value);
+    this.requestRender();
+  }
+
+  override handleKeyPress(key: KeyEvent): boolean {
+    const page = this.rowCapacity(this.scrollOffset);
+
+    switch (key.name) {
+      case "up":
+        return this.moveCursor(this._selectedIndex - 1);
+      case "down":
+        return this.moveCursor(this._selectedIndex + 1);
+      case "pageup":
+        return this.moveCursor(this._selectedIndex - page);
+      case "pagedown":
+        return this.moveCursor(this._selectedIndex + page);
+      case "home":
+        return this.moveCursor(0);
+      case "end":
+        return this.moveCursor(this._rows.length - 1);
+      case "return":
+      case "enter":
+        if (this._rows.length === 0) return false;
+        this.emit("rowSelected", this._selectedIndex);
+        return true;
+      case "space":
+        if (!this._multiSelect || this._rows.length === 0) return false;
+        this.toggleRow(this._selectedIndex);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  protected override onMouseEvent(event: MouseEvent): void {
+    if (event.type === "scroll" && event.scroll) {
+      const step = event.scroll.direction === "up" ? -1
+        : event.scroll.direction === "down" ? 1
+        : 0;
+      this.scrollBy(step);
+      return;
+    }
+
+    if (event.type !== "down" || event.button !== 0) return;
+
+    const line = event.y - this.y;
+    const headerShown = this.headerShown();
+    if (headerShown && line === 0) {
+      const column = this.columnAt(event.x - this.x);
+      if (column !== -1 && this._columns[column]!.sortable) {
+        const descending = this._sort?.column === column && !this._sort.descending;
+        this.emit("sortChanged", { column, descending });
+      }
+      return;
+    }
+
+    const index = this.scrollOffset + line - (headerShown ? 1 : 0);
+    if (index < 0 || index >= this._rows.length) return;
+
+    this.moveCursor(index);
+    if (this._multiSelect && (event.modifiers.ctrl || event.modifiers.shift)) {
+      this.toggleRow(index);
+    } else {
+      this.emit("rowSelected", index);
+    }
+  }
+
+  protected override onResize(width: number, height: number): void {
+    super.onResize(width, height);
+    this.widths = null;
+    this.moveCursor(this._selectedIndex);
+  }
+
+  protected override renderSelf(buffer: OptimizedBuffer): void {
+    buffer.fillRect(this.x, this.y, this.width, this.height, this._backgroundColor);
+
+    const widths = this.columnWidths();
+    let line = 0;
+    if (this.headerShown()) {
+      const titles = this._columns.map((column, index) => this.headerTitle(column, index));
+      const attributes = TextAttributes.BOLD | TextAttributes.UNDERLINE;
+      this.drawLine(buffer, line++, titles, widths, "", this._headerColor, this._backgroundColor, attributes);
+    }
+
+    for (let index = this.scrollOffset; index < this._rows.length && line < this.height; index++) {
+      const isCursor = index === this._selectedIndex;
+      const fg = isCursor ? this._selectedTextColor : this._textColor;
+      const bg = isCursor ? this._selectedBackgroundColor : this._backgroundColor;
+      const mark = this._selectedRows.has(index) ? "✓" : "";
+      if (isCursor) buffer.fillRect(this.x, this.y + line, this.width, 1, bg);
+      this.drawLine(buffer, line++, this._rows[index]!, widths, mark, fg, bg, 0);
+    }
+  }
+
+  private drawLine(
+    buffer: OptimizedBuffer,
+    line: number,
+    cells: string[],
+    widths: number[],
+    mark: string,
+    fg: RGBA,
+    bg: RGBA,
+    attributes: number,
+  ): void {
+    const right = this.x + this.width;
+    const y = this.y + line;
+    let x = this.x;
+
+    if (this._multiSelect) {
+      buffer.drawText(mark.padEnd(2), x, y, fg, bg);
+      x += 2;
+    }
+
+    for (let index = 0; index < this._columns.length && x < right; index++) {
+      const text = fitCell(cells[index] ?? "", widths[index]!, this._columns[index]!);
+      buffer.drawText(cutToWidth(text, right - x), x, y, fg, bg, attributes);
+      x += widths[index]! + 1;
+    }
+  }
+
+  private headerTitle(column: TableColumn, index: number): string {
+    if (this._sort?.column !== index) return column.title;
+    return column.title + (this._sort.descending ? " ▼" : " ▲");
+  }
+
+  private headerShown(): boolean {
+    return this._stickyHeader || this.scrollOffset === 0;
+  }
+
+  // How many rows fit below the header when the table is scrolled to `offset`.
+  private rowCapacity(offset: number): number {
+    const header = this._stickyHeader || offset === 0 ? 1 : 0;
+    return Math.max(1, this.height - header);
+  }
+
+  private columnWidths(): number[] {
+    if (this.widths) return this.widths;
+
+    const widths = this._columns.map((column, index) => {
+      switch (column.sizing) {
+        case "fixed":
+          return Math.max(0, column.size);
+        case "auto":
+          return this._rows.reduce(
+            (widest, row) => Math.max(widest, textWidth(row[index] ?? "")),
+            textWidth(this.headerTitle(column, index)),
+          );
+        default:
+          return 0;
+      }
+    });
+
+    // Flex columns share what is left once the other columns, the gaps
+    // between columns and the multi-select marks have their room.
+    const flexible = this._columns.filter((column) => column.sizing === "flex");
+    const total = flexible.reduce((sum, column) => sum + Math.max(0, column.size), 0);
+    if (total > 0) {
+      const taken = widths.reduce((sum, width) => sum + width, 0)
+        + Math.max(0, this._columns.length - 1)
+        + (this._multiSelect ? 2 : 0);
+      let left = Math.max(0, this.width - taken);
+      let shares = total;
+      this._columns.forEach((column, index) => {
+        if (column.sizing !== "flex") return;
+        const share = Math.round(left * Math.max(0, column.size) / shares);
+        widths[index] = share;
+        left -= share;
+        shares -= Math.max(0, column.size);
+      });
+    }
+
+    this.widths = widths;
+    return widths;
+  }
+
+  // The column under `x`, relative to the table, or -1 for the gaps between
+  // columns and the space after the last one.
+  private columnAt(x: number): number {
+    const widths = this.columnWidths();
+    let start = this._multiSelect ? 2 : 0;
+    for (let index = 0; index < widths.length; index++) {
+      if (x >= start && x < start + widths[index]!) return index;
+      start += widths[index]! + 1;
+    }
+    return -1;
+  }
+
+  // Move the cursor to `index`, clamped to the rows, and scroll as little as
+  // needed to show it.
+  private moveCursor(index: number): boolean {
+    const last = Math.max(0, this._rows.length - 1);
+    this._selectedIndex = Math.min(Math.max(index, 0), last);
+
+    if (this._selectedIndex < this.scrollOffset) {
+      this.scrollOffset = this._selectedIndex;
+    } else if (this._selectedIndex >= this.scrollOffset + this.rowCapacity(this.scrollOffset)) {
+      this.scrollOffset = Math.max(0, this._selectedIndex - this.rowCapacity(1) + 1);
+    }
+
+    this.scrollBy(0);
+    return true;
+  }
+
+  private scrollBy(lines: number): void {
+    const max = Math.max(0, this._rows.length - this.rowCapacity(1));
+    this.scrollOffset = Math.min(Math.max(this.scrollOffset + lines, 0), max);
+    this.requestRender();
+  }
+
+  private toggleRow(index: number): void {
+    if (!this._selectedRows.delete(index)) this._selectedRows.add(index);
+    this.emit("rowsSelected", [...this._selectedRows].sort((a, b) => a - b));
+    this.requestRender();
+  }
+}
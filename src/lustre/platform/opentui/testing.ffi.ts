@@ -0,0 +1,276 @@
+// IMPORTS ---------------------------------------------------------------------
+
+import { TextAttributes, rgbToHex } from "@opentui/core";
+import type { CliRenderer, CapturedFrame, RGBA } from "@opentui/core";
+import { createTestRenderer } from "@opentui/core/testing";
+import type { MockInput, MockMouse } from "@opentui/core/testing";
+import type { List } from "../../../gleam.mjs";
+import {
+  build_platform,
+  deliver_signal,
+  enable_diagnostics,
+  handle_exit,
+  live_renderable_count,
+  mark_headless,
+  renderer_options,
+} from "../opentui.ffi.ts";
+import type { HandledSignal, RendererConfig } from "../opentui.ffi.ts";
+
+// TYPES -----------------------------------------------------------------------
+
+interface Harness {
+  renderer: CliRenderer;
+  platform: unknown;
+  mockInput: MockInput;
+  mockMouse: MockMouse;
+  renderOnce: () => Promise<void>;
+  captureCharFrame: () => string;
+  captureSpans: () => CapturedFrame;
+  resize: (width: number, height: number) => void;
+}
+
+type ScrollDirection = "up" | "down" | "left" | "right";
+
+// HELPERS ---------------------------------------------------------------------
+
+// Key names as reported by `KeyEvent.key` → the mock input's key codes.
+const KEY_CODES: Record<string, string> = {
+  "return": "RETURN",
+  "enter": "RETURN",
+  "linefeed": "LINEFEED",
+  "tab": "TAB",
+  "backspace": "BACKSPACE",
+  "delete": "DELETE",
+  "home": "HOME",
+  "end": "END",
+  "escape": "ESCAPE",
+  "up": "ARROW_UP",
+  "down": "ARROW_DOWN",
+  "left": "ARROW_LEFT",
+  "right": "ARROW_RIGHT",
+  "f1": "F1", "f2": "F2", "f3": "F3", "f4": "F4",
+  "f5": "F5", "f6": "F6", "f7": "F7", "f8": "F8",
+  "f9": "F9", "f10": "F10", "f11": "F11", "f12": "F12",
+};
+
+const ATTRIBUTE_NAMES: [number, string][] = [
+  [TextAttributes.BOLD, "bold"],
+  [TextAttributes.DIM, "dim"],
+  [TextAttributes.ITALIC, "italic"],
+  [TextAttributes.UNDERLINE, "underline"],
+  [TextAttributes.BLINK, "blink"],
+  [TextAttributes.INVERSE, "inverse"],
+  [TextAttributes.HIDDEN, "hidden"],
+  [TextAttributes.STRIKETHROUGH, "strikethrough"],
+];
+
+// Lustre schedules renders with a zero-delay timeout, so waiting one macrotask
+// lets any pending reconciliation (and its before_paint effects) run.
+const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+function describeColor(color: RGBA): string {
+  return color.a === 0 ? "none" : rgbToHex(color);
+}
+
+function describeAttributes(attributes: number): string {
+  return ATTRIBUTE_NAMES
+    .filter(([flag]) => (attributes & flag) !== 0)
+    .map(([, name]) => name)
+    .join(",");
+}
+
+// HARNESS ---------------------------------------------------------------------
+
+export async function start(
+  config: RendererConfig,
+  width: number,
+  height: number,
+): Promise<Harness> {
+  const setup = await createTestRenderer({
+    ...renderer_options(config),
+    width,
+    height,
+    kittyKeyboard: config.use_kitty_keyboard || config.use_kitty_keyboard_events,
+  });
+  mark_headless(setup.renderer);
+  if (config.dev_mode) enable_diagnostics(setup.renderer);
+  handle_exit(setup.renderer, config);
+
+  return {
+    renderer: setup.renderer,
+    platform: build_platform(setup.renderer),
+    mockInput: setup.mockInput,
+    mockMouse: setup.mockMouse,
+    renderOnce: setup.renderOnce,
+    captureCharFrame: setup.captureCharFrame,
+    captureSpans: setup.captureSpans,
+    resize: setup.resize,
+  };
+}
+
+export function platform(harness: Harness): unknown {
+  return harness.platform;
+}
+
+export function resolve<T>(value: T): Promise<T> {
+  return Promise.resolve(value);
+}
+
+export function await_<A, B>(pending: Promise<A>, next: (value: A) => Promise<B>): Promise<B> {
+  return pending.then(next);
+}
+
+export function map<A, B>(pending: Promise<A>, fn: (value: A) => B): Promise<B> {
+  return pending.then(fn);
+}
+
+// RENDERING -------------------------------------------------------------------
+
+export async function render(harness: Harness): Promise<undefined> {
+  await tick();
+  await harness.renderOnce();
+  return undefined;
+}
+
+export async function render_until(
+  harness: Harness,
+  done: (frame: string) => boolean,
+  timeout: number,
+): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    await render(harness);
+    if (done(harness.captureCharFrame())) return true;
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+export function frame(harness: Harness): string {
+  return harness.captureCharFrame();
+}
+
+// A text snapshot of the current frame: the character grid followed by one
+// line per styled span. Spans that are blank and have no background are left
+// out so snapshots only change when something visible does.
+export function snapshot(harness: Harness): string {
+  const captured = harness.captureSpans();
+  const styles: string[] = [];
+
+  captured.lines.forEach((line, row) => {
+    let col = 0;
+    for (const span of line.spans) {
+      const start = col;
+      col += span.width;
+      if (span.text.trim() === "" && span.bg.a === 0) continue;
+
+      let description = `${row}:${start}-${col} fg=${describeColor(span.fg)} bg=${describeColor(span.bg)}`;
+      const attributes = describeAttributes(span.attributes);
+      if (attributes) description += ` ${attributes}`;
+      styles.push(description);
+    }
+  });
+
+  return `${harness.captureCharFrame()}\n-- styles --\n${styles.join("\n")}\n`;
+}
+
+export function resize(harness: Harness, width: number, height: number): undefined {
+  harness.resize(width, height);
+  return undefined;
+}
+
+export function live_renderables(harness: Harness): number {
+  return live_renderable_count(harness.renderer);
+}
+
+export function destroy(harness: Harness): undefined {
+  harness.renderer.destroy();
+  return undefined;
+}
+
+// KEYBOARD INPUT --------------------------------------------------------------
+
+export function press_key(
+  harness: Harness,
+  key: string,
+  ctrl: boolean,
+  shift: boolean,
+  meta: boolean,
+): undefined {
+  const code = KEY_CODES[key.toLowerCase()] ?? key;
+  harness.mockInput.pressKey(code, { ctrl, shift, meta });
+  return undefined;
+}
+
+export async function type_text(harness: Harness, text: string): Promise<undefined> {
+  await harness.mockInput.typeText(text);
+  return undefined;
+}
+
+export async function paste(harness: Harness, text: string): Promise<undefined> {
+  await harness.mockInput.pasteBracketedText(text);
+  return undefined;
+}
+
+export function send_input(harness: Harness, data: string): undefined {
+  harness.renderer.stdin.emit("data", Buffer.from(data));
+  return undefined;
+}
+
+// MOUSE INPUT -----------------------------------------------------------------
+
+export async function click(harness: Harness, x: number, y: number): Promise<undefined> {
+  await harness.mockMouse.click(x, y);
+  return undefined;
+}
+
+export async function mouse_down(harness: Harness, x: number, y: number): Promise<undefined> {
+  await harness.mockMouse.pressDown(x, y);
+  return undefined;
+}
+
+export async function mouse_up(harness: Harness, x: number, y: number): Promise<undefined> {
+  await harness.mockMouse.release(x, y);
+  return undefined;
+}
+
+export async function move_mouse(harness: Harness, x: number, y: number): Promise<undefined> {
+  await harness.mockMouse.moveTo(x, y);
+  return undefined;
+}
+
+export async function drag(
+  harness: Harness,
+  from_x: number,
+  from_y: number,
+  to_x: number,
+  to_y: number,
+): Promise<undefined> {
+  await harness.mockMouse.drag(from_x, from_y, to_x, to_y);
+  return undefined;
+}
+
+export async function scroll(
+  harness: Harness,
+  x: number,
+  y: number,
+  direction: ScrollDirection,
+): Promise<undefined> {
+  await harness.mockMouse.scroll(x, y, direction);
+  return undefined;
+}
+
+// SIGNALS ---------------------------------------------------------------------
+
+// The signals each harness' renderer has been sent. Harnesses sent a signal
+// together share one set, as apps in one process would.
+const SIGNALS_SENT = new WeakMap<CliRenderer, Set<HandledSignal>>();
+
+export function send_signal(harnesses: List<Harness>, signal: HandledSignal): undefined {
+  const renderers = harnesses.toArray().map((harness) => harness.renderer);
+  const sent = renderers.map((renderer) => SIGNALS_SENT.get(renderer));
+  const received = new Set(sent.flatMap((signals) => [...(signals ?? [])]));
+  for (const renderer of renderers) SIGNALS_SENT.set(renderer, received);
+  deliver_signal(renderers, signal, received);
+  return undefined;
+}
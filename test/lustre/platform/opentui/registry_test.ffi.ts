@@ -0,0 +1,29 @@
+import { TextRenderable } from "@opentui/core";
+import type { CliRenderer } from "@opentui/core";
+
+// A tiny widget that shows a label and its count plus one, and emits "bumped"
+// with twice the count whenever the count is set.
+class Badge extends TextRenderable {
+  #label = "";
+  #count = 0;
+
+  constructor(renderer: CliRenderer) {
+    super(renderer, {});
+  }
+
+  set label(value: string) {
+    this.#label = value;
+    this.content = `${this.#label}: ${this.#count + 1}`;
+  }
+
+  set count(value: number) {
+    this.#count = value;
+    this.content = `${this.#label}: ${this.#count + 1}`;
+    // Emit once the reconciler has attached the element's listeners.
+    queueMicrotask(() => this.emit("bumped", value * 2));
+  }
+}
+
+export function create_badge(renderer: CliRenderer): Badge {
+  return new Badge(renderer);
+}
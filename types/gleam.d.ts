@@ -6,6 +6,10 @@ declare module "*/gleam.mjs" {
   export function Result$Error<T>(value: T): unknown;
   export function Result$isOk(result: unknown): boolean;
   export function Result$Ok$0<T>(result: unknown): T;
+
+  export class List<T> {
+    toArray(): T[];
+  }
 }
 
 // Lustre element
@@ -58,10 +62,78 @@ declare module "*/lustre/platform.mjs" {
 // Effect module (Gleam-generated)
 declare module "*/effect.mjs" {
   export class KeyEvent {
-    constructor(name: string, ctrl: boolean, shift: boolean, meta: boolean);
+    constructor(
+      name: string,
+      ctrl: boolean,
+      shift: boolean,
+      meta: boolean,
+      repeated: boolean,
+      released: boolean,
+      option: boolean,
+      super$: boolean,
+      sequence: string,
+      printable: boolean
+    );
     name: string;
     ctrl: boolean;
     shift: boolean;
     meta: boolean;
+    repeated: boolean;
+    released: boolean;
+    option: boolean;
+    super$: boolean;
+    sequence: string;
+    printable: boolean;
+  }
+
+  export class Layout {
+    constructor(
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      screen_x: number,
+      screen_y: number
+    );
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    screen_x: number;
+    screen_y: number;
+  }
+
+  export class ScrollState {
+    constructor(
+      scroll_x: number,
+      scroll_y: number,
+      content_width: number,
+      content_height: number,
+      viewport_width: number,
+      viewport_height: number
+    );
+    scroll_x: number;
+    scroll_y: number;
+    content_width: number;
+    content_height: number;
+    viewport_width: number;
+    viewport_height: number;
+  }
+
+  export class NotFound {}
+  export class NotFocusable {}
+  export class Superseded {}
+
+  export class CtrlC {}
+
+  export class Signal {
+    constructor(name: string);
+    name: string;
+  }
+
+  export class Edited {
+    constructor(exit_code: number, contents: string);
+    exit_code: number;
+    contents: string;
   }
 }